@@ -0,0 +1,140 @@
+#!/usr/bin/env npx tsx
+/**
+ * API Key Management
+ *
+ * Issues, lists and revokes the API keys client apps send in the X-API-Key
+ * header. Only a SHA-256 hash of each key is stored, so a new key is shown
+ * once, when it is created.
+ *
+ * Usage:
+ *   npm run api-keys -- create --name <app> [--rate-limit <n>]
+ *   npm run api-keys -- list
+ *   npm run api-keys -- revoke <id>
+ *
+ * Options:
+ *   --name <app>          Client app the key is for, e.g. "ios-app"
+ *   --rate-limit <n>      Requests per minute for this key (default: RATE_LIMIT_PER_KEY)
+ *   --help, -h            Show this help message
+ *
+ * Revoked keys stop working within a minute on running servers.
+ */
+
+import { pool } from '../src/db/client.js';
+import { createApiKey, listApiKeys, revokeApiKey } from '../src/db/queries.js';
+import { generateApiKey } from '../src/services/api-keys.js';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function printHelp(): void {
+  console.log(`
+Usage:
+  npm run api-keys -- create --name <app> [--rate-limit <n>]
+  npm run api-keys -- list
+  npm run api-keys -- revoke <id>
+`);
+}
+
+function fail(message: string): never {
+  console.error(`\n  ❌ Error: ${message}\n`);
+  process.exit(1);
+}
+
+function formatDate(date: Date | null): string {
+  return date ? date.toISOString().substring(0, 16).replace('T', ' ') : '-';
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+async function create(args: string[]): Promise<void> {
+  let name: string | null = null;
+  let rateLimit: number | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--name') {
+      name = args[++i]?.trim() || null;
+    } else if (args[i] === '--rate-limit') {
+      rateLimit = parseInt(args[++i], 10);
+      if (!(rateLimit > 0)) fail('--rate-limit must be a positive number');
+    }
+  }
+  if (!name) fail('--name is required');
+
+  const { key, prefix, hash } = generateApiKey();
+  const row = await createApiKey(name, prefix, hash, rateLimit);
+
+  console.log(`
+  ✓ Created API key #${row.id} for ${row.name}
+
+    ${key}
+
+  Store it now; it can't be shown again.
+`);
+}
+
+async function list(): Promise<void> {
+  const keys = await listApiKeys();
+  if (keys.length === 0) {
+    console.log('\n  No API keys yet. Create one with: npm run api-keys -- create --name <app>\n');
+    return;
+  }
+
+  console.log('');
+  for (const key of keys) {
+    const status = key.revoked_at ? `revoked ${formatDate(key.revoked_at)}` : 'active';
+    console.log(
+      `  #${String(key.id).padEnd(4)} ${key.name.padEnd(20)} ${key.key_prefix}…  ` +
+        `${String(key.rate_limit ?? 'default').padEnd(8)} last used ${formatDate(key.last_used_at).padEnd(16)}  ${status}`
+    );
+  }
+  console.log('');
+}
+
+async function revoke(args: string[]): Promise<void> {
+  const id = parseInt(args[0], 10);
+  if (!(id > 0)) fail('revoke takes the numeric key ID (see npm run api-keys -- list)');
+
+  if (await revokeApiKey(id)) {
+    console.log(`\n  ✓ Revoked API key #${id}\n`);
+  } else {
+    fail(`API key #${id} doesn't exist or is already revoked`);
+  }
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (!command || command === '--help' || command === '-h' || args.includes('--help')) {
+    printHelp();
+    process.exit(0);
+  }
+
+  switch (command) {
+    case 'create':
+      await create(args);
+      break;
+    case 'list':
+      await list();
+      break;
+    case 'revoke':
+      await revoke(args);
+      break;
+    default:
+      fail(`unknown command '${command}' (expected create, list or revoke)`);
+  }
+
+  await pool.end();
+}
+
+main().catch(async (error) => {
+  console.error('\n  ❌ Failed:', error.message);
+  await pool.end();
+  process.exit(1);
+});
@@ -0,0 +1,162 @@
+#!/usr/bin/env npx tsx
+/**
+ * Catalog Export
+ *
+ * Dumps movies, genres, countries, their links and translations to JSON Lines
+ * or CSV, for fixture catalogs, production snapshots and seeding CI without TMDB.
+ *
+ * Usage:
+ *   npm run catalog:export -- [options]
+ *
+ * Options:
+ *   --format, -f <type>   'jsonl' or 'csv' (default: 'jsonl')
+ *   --out, -o <path>      Output file for jsonl, directory for csv
+ *                         (default: catalog.jsonl / catalog/)
+ *   --help, -h            Show this help message
+ *
+ * Examples:
+ *   npm run catalog:export -- --out snapshots/prod.jsonl
+ *   npm run catalog:export -- --format csv --out snapshots/prod
+ */
+
+import { createWriteStream, mkdirSync, type WriteStream } from 'node:fs';
+import { dirname } from 'node:path';
+import { pool } from '../src/db/client.js';
+import {
+  CATALOG_TABLE_NAMES,
+  columnsOf,
+  csvPath,
+  normalizeRow,
+  toCsvLine,
+  type CatalogFormat,
+  type CatalogTable,
+} from './lib/catalog-format.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ExportOptions {
+  format: CatalogFormat;
+  out: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Rows per table in a stable order, so exports of the same data diff cleanly
+const TABLE_QUERIES: Record<CatalogTable, string> = {
+  genres: 'SELECT id, name FROM genres ORDER BY id',
+  genre_translations: 'SELECT genre_id, locale, name FROM genre_translations ORDER BY genre_id, locale',
+  countries: 'SELECT code, name FROM countries ORDER BY code',
+  movies: `SELECT tmdb_id, title, original_title, year, runtime, synopsis, tagline,
+             poster_path, vote_average, vote_count, original_language, adult
+           FROM movies ORDER BY tmdb_id`,
+  movie_genres: `SELECT m.tmdb_id, mg.genre_id
+                 FROM movie_genres mg
+                 INNER JOIN movies m ON m.id = mg.movie_id
+                 ORDER BY m.tmdb_id, mg.genre_id`,
+  movie_countries: `SELECT m.tmdb_id, mc.country_code
+                    FROM movie_countries mc
+                    INNER JOIN movies m ON m.id = mc.movie_id
+                    ORDER BY m.tmdb_id, mc.country_code`,
+  movie_translations: `SELECT m.tmdb_id, mt.locale, mt.title, mt.synopsis, mt.tagline
+                       FROM movie_translations mt
+                       INNER JOIN movies m ON m.id = mt.movie_id
+                       ORDER BY m.tmdb_id, mt.locale`,
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseArgs(): ExportOptions {
+  const args = process.argv.slice(2);
+  let format: CatalogFormat = 'jsonl';
+  let out: string | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--help' || arg === '-h') {
+      console.log('Usage: npm run catalog:export -- [--format jsonl|csv] [--out <path>]');
+      process.exit(0);
+    }
+
+    if (arg === '--format' || arg === '-f') {
+      const value = args[++i];
+      if (value !== 'jsonl' && value !== 'csv') {
+        console.error(`\n  ❌ Error: unknown format '${value}' (expected jsonl or csv)\n`);
+        process.exit(1);
+      }
+      format = value;
+    } else if (arg === '--out' || arg === '-o') {
+      out = args[++i];
+    }
+  }
+
+  return { format, out: out ?? (format === 'jsonl' ? 'catalog.jsonl' : 'catalog') };
+}
+
+async function writeLine(stream: WriteStream, line: string): Promise<void> {
+  if (!stream.write(`${line}\n`)) {
+    await new Promise<void>((resolve) => stream.once('drain', () => resolve()));
+  }
+}
+
+async function closeStream(stream: WriteStream): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    stream.once('error', reject);
+    stream.end(() => resolve());
+  });
+}
+
+// ============================================================================
+// Main Export Function
+// ============================================================================
+
+async function exportCatalog(options: ExportOptions): Promise<void> {
+  console.log(`\n  📦 Exporting catalog as ${options.format} to ${options.out}\n`);
+
+  mkdirSync(options.format === 'csv' ? options.out : dirname(options.out), { recursive: true });
+  const jsonl = options.format === 'jsonl' ? createWriteStream(options.out) : null;
+
+  for (const table of CATALOG_TABLE_NAMES) {
+    const result = await pool.query(TABLE_QUERIES[table]);
+    const columns = columnsOf(table);
+
+    if (jsonl) {
+      for (const row of result.rows) {
+        await writeLine(jsonl, JSON.stringify({ table, ...normalizeRow(table, row) }));
+      }
+    } else {
+      const csv = createWriteStream(csvPath(options.out, table));
+      await writeLine(csv, columns.join(','));
+      for (const row of result.rows) {
+        const normalized = normalizeRow(table, row);
+        await writeLine(csv, toCsvLine(columns.map((column) => normalized[column])));
+      }
+      await closeStream(csv);
+    }
+
+    console.log(`  ✓ ${table.padEnd(20)} ${result.rows.length}`);
+  }
+
+  if (jsonl) {
+    await closeStream(jsonl);
+  }
+
+  console.log(`\n  🎉 Export complete\n`);
+  await pool.end();
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+exportCatalog(parseArgs()).catch(async (error) => {
+  console.error('\n  ❌ Export failed:', error.message);
+  await pool.end();
+  process.exit(1);
+});
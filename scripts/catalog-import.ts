@@ -0,0 +1,353 @@
+#!/usr/bin/env npx tsx
+/**
+ * Catalog Import
+ *
+ * Loads a catalog written by catalog:export (JSON Lines or CSV) without TMDB.
+ * Movies are upserted by tmdb_id, genres by id and countries by code, and each
+ * imported movie's genre and country links are replaced by the ones in the
+ * catalog, so importing the same file twice leaves the database unchanged.
+ * The whole import runs in one transaction.
+ *
+ * Usage:
+ *   npm run catalog:import -- --in <path> [options]
+ *
+ * Options:
+ *   --in, -i <path>       Catalog file (jsonl) or directory (csv)
+ *   --format, -f <type>   'jsonl' or 'csv' (default: csv for directories, else jsonl)
+ *   --help, -h            Show this help message
+ *
+ * Examples:
+ *   npm run catalog:import -- --in scripts/fixtures/catalog.jsonl
+ *   npm run catalog:import -- --in snapshots/prod --format csv
+ */
+
+import { createReadStream, existsSync, readFileSync, statSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+import type { PoolClient } from 'pg';
+import { pool } from '../src/db/client.js';
+import {
+  CATALOG_TABLE_NAMES,
+  columnsOf,
+  csvPath,
+  isCatalogTable,
+  normalizeRow,
+  parseCsv,
+  type CatalogFormat,
+  type CatalogRow,
+  type CatalogTable,
+  type CatalogValue,
+} from './lib/catalog-format.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ImportOptions {
+  in: string;
+  format: CatalogFormat;
+}
+
+type CatalogData = Map<CatalogTable, CatalogRow[]>;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseArgs(): ImportOptions {
+  const args = process.argv.slice(2);
+  let input: string | null = null;
+  let format: CatalogFormat | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--help' || arg === '-h') {
+      console.log('Usage: npm run catalog:import -- --in <path> [--format jsonl|csv]');
+      process.exit(0);
+    }
+
+    if (arg === '--in' || arg === '-i') {
+      input = args[++i];
+    } else if (arg === '--format' || arg === '-f') {
+      const value = args[++i];
+      if (value !== 'jsonl' && value !== 'csv') {
+        console.error(`\n  ❌ Error: unknown format '${value}' (expected jsonl or csv)\n`);
+        process.exit(1);
+      }
+      format = value;
+    }
+  }
+
+  if (!input || !existsSync(input)) {
+    console.error('\n  ❌ Error: --in must point at an existing catalog file or directory\n');
+    process.exit(1);
+  }
+
+  return { in: input, format: format ?? (statSync(input).isDirectory() ? 'csv' : 'jsonl') };
+}
+
+async function readJsonl(path: string): Promise<CatalogData> {
+  const data: CatalogData = new Map();
+  const lines = createInterface({ input: createReadStream(path), crlfDelay: Infinity });
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim() === '') continue;
+
+    const record = JSON.parse(line) as Record<string, unknown>;
+    if (!isCatalogTable(record.table)) {
+      throw new Error(`Line ${lineNumber}: unknown table '${String(record.table)}'`);
+    }
+
+    const rows = data.get(record.table) || [];
+    rows.push(normalizeRow(record.table, record));
+    data.set(record.table, rows);
+  }
+
+  return data;
+}
+
+// Tables without a file are left untouched
+function readCsv(dir: string): CatalogData {
+  const data: CatalogData = new Map();
+
+  for (const table of CATALOG_TABLE_NAMES) {
+    const path = csvPath(dir, table);
+    if (!existsSync(path)) continue;
+
+    const [header, ...lines] = parseCsv(readFileSync(path, 'utf8'));
+    if (!header) continue;
+
+    const missing = columnsOf(table).filter((column) => !header.includes(column));
+    if (missing.length > 0) {
+      throw new Error(`${path}: missing columns ${missing.join(', ')}`);
+    }
+
+    data.set(
+      table,
+      lines.map((fields) =>
+        normalizeRow(table, Object.fromEntries(header.map((column, i) => [column, fields[i]])))
+      )
+    );
+  }
+
+  return data;
+}
+
+// Group link rows by movie
+function groupByMovie(rows: CatalogRow[], column: string): Map<number, CatalogValue[]> {
+  const groups = new Map<number, CatalogValue[]>();
+  for (const row of rows) {
+    const values = groups.get(row.tmdb_id as number) || [];
+    values.push(row[column]);
+    groups.set(row.tmdb_id as number, values);
+  }
+  return groups;
+}
+
+// ============================================================================
+// Database Operations
+// ============================================================================
+
+async function upsertGenres(client: PoolClient, rows: CatalogRow[]): Promise<void> {
+  for (const row of rows) {
+    await client.query(
+      `INSERT INTO genres (id, name) VALUES ($1, $2)
+       ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name`,
+      [row.id, row.name]
+    );
+  }
+}
+
+async function upsertGenreTranslations(client: PoolClient, rows: CatalogRow[]): Promise<void> {
+  for (const row of rows) {
+    await client.query(
+      `INSERT INTO genre_translations (genre_id, locale, name) VALUES ($1, $2, $3)
+       ON CONFLICT (genre_id, locale) DO UPDATE SET name = EXCLUDED.name`,
+      [row.genre_id, row.locale, row.name]
+    );
+  }
+}
+
+async function upsertCountries(client: PoolClient, rows: CatalogRow[]): Promise<void> {
+  for (const row of rows) {
+    await client.query(
+      `INSERT INTO countries (code, name) VALUES ($1, $2)
+       ON CONFLICT (code) DO UPDATE SET name = EXCLUDED.name`,
+      [row.code, row.name]
+    );
+  }
+}
+
+// Upsert movies by tmdb_id; returns tmdb_id -> internal movie ID
+async function upsertMovies(client: PoolClient, rows: CatalogRow[]): Promise<Map<number, number>> {
+  const movieIds = new Map<number, number>();
+
+  for (const row of rows) {
+    const result = await client.query<{ id: number }>(
+      `INSERT INTO movies (
+        tmdb_id, title, original_title, year, runtime, synopsis, tagline,
+        poster_path, vote_average, vote_count, original_language, adult
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      ON CONFLICT (tmdb_id) DO UPDATE SET
+        title = EXCLUDED.title,
+        original_title = EXCLUDED.original_title,
+        year = EXCLUDED.year,
+        runtime = EXCLUDED.runtime,
+        synopsis = EXCLUDED.synopsis,
+        tagline = EXCLUDED.tagline,
+        poster_path = EXCLUDED.poster_path,
+        vote_average = EXCLUDED.vote_average,
+        vote_count = EXCLUDED.vote_count,
+        original_language = EXCLUDED.original_language,
+        adult = EXCLUDED.adult
+      RETURNING id`,
+      [
+        row.tmdb_id,
+        row.title,
+        row.original_title,
+        row.year,
+        row.runtime,
+        row.synopsis,
+        row.tagline,
+        row.poster_path,
+        row.vote_average ?? 0,
+        row.vote_count ?? 0,
+        row.original_language,
+        row.adult ?? false,
+      ]
+    );
+    movieIds.set(row.tmdb_id as number, result.rows[0].id);
+  }
+
+  return movieIds;
+}
+
+// Replace the genre links of every imported movie
+async function replaceMovieGenres(
+  client: PoolClient,
+  movieIds: Map<number, number>,
+  rows: CatalogRow[]
+): Promise<void> {
+  const genresByMovie = groupByMovie(rows, 'genre_id');
+  for (const [tmdbId, movieId] of movieIds) {
+    await client.query('DELETE FROM movie_genres WHERE movie_id = $1', [movieId]);
+    await client.query(
+      `INSERT INTO movie_genres (movie_id, genre_id)
+       SELECT $1, id FROM genres WHERE id = ANY($2)
+       ON CONFLICT DO NOTHING`,
+      [movieId, genresByMovie.get(tmdbId) || []]
+    );
+  }
+}
+
+// Replace the country links of every imported movie
+async function replaceMovieCountries(
+  client: PoolClient,
+  movieIds: Map<number, number>,
+  rows: CatalogRow[]
+): Promise<void> {
+  const countriesByMovie = groupByMovie(rows, 'country_code');
+  for (const [tmdbId, movieId] of movieIds) {
+    await client.query('DELETE FROM movie_countries WHERE movie_id = $1', [movieId]);
+    await client.query(
+      `INSERT INTO movie_countries (movie_id, country_code)
+       SELECT $1, code FROM countries WHERE code = ANY($2)
+       ON CONFLICT DO NOTHING`,
+      [movieId, countriesByMovie.get(tmdbId) || []]
+    );
+  }
+}
+
+async function upsertMovieTranslations(
+  client: PoolClient,
+  movieIds: Map<number, number>,
+  rows: CatalogRow[]
+): Promise<number> {
+  let skipped = 0;
+  for (const row of rows) {
+    const movieId = movieIds.get(row.tmdb_id as number);
+    if (!movieId) {
+      skipped++;
+      continue;
+    }
+
+    await client.query(
+      `INSERT INTO movie_translations (movie_id, locale, title, synopsis, tagline)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (movie_id, locale) DO UPDATE SET
+         title = EXCLUDED.title,
+         synopsis = EXCLUDED.synopsis,
+         tagline = EXCLUDED.tagline,
+         updated_at = NOW()`,
+      [movieId, row.locale, row.title, row.synopsis, row.tagline]
+    );
+  }
+  return skipped;
+}
+
+// ============================================================================
+// Main Import Function
+// ============================================================================
+
+async function importCatalog(options: ImportOptions): Promise<void> {
+  console.log(`\n  📦 Importing ${options.format} catalog from ${options.in}\n`);
+
+  const data = options.format === 'jsonl' ? await readJsonl(options.in) : readCsv(options.in);
+  const rowsOf = (table: CatalogTable) => data.get(table) || [];
+
+  // Movies need a tmdb_id and a title; everything else may be null
+  const movies = rowsOf('movies').filter((row) => row.tmdb_id !== null && row.title !== null);
+  const invalidMovies = rowsOf('movies').length - movies.length;
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    await upsertGenres(client, rowsOf('genres'));
+    await upsertGenreTranslations(client, rowsOf('genre_translations'));
+    await upsertCountries(client, rowsOf('countries'));
+    const movieIds = await upsertMovies(client, movies);
+
+    if (data.has('movie_genres')) {
+      await replaceMovieGenres(client, movieIds, rowsOf('movie_genres'));
+    }
+    if (data.has('movie_countries')) {
+      await replaceMovieCountries(client, movieIds, rowsOf('movie_countries'));
+    }
+    const orphanTranslations = await upsertMovieTranslations(client, movieIds, rowsOf('movie_translations'));
+
+    await client.query('COMMIT');
+
+    for (const table of CATALOG_TABLE_NAMES) {
+      if (data.has(table)) {
+        console.log(`  ✓ ${table.padEnd(20)} ${rowsOf(table).length}`);
+      }
+    }
+    if (invalidMovies > 0) {
+      console.log(`  ⊘ Skipped ${invalidMovies} movies without tmdb_id or title`);
+    }
+    if (orphanTranslations > 0) {
+      console.log(`  ⊘ Skipped ${orphanTranslations} translations for movies not in the catalog`);
+    }
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  console.log(`\n  🎉 Import complete\n`);
+  await pool.end();
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+importCatalog(parseArgs()).catch(async (error) => {
+  console.error('\n  ❌ Import failed:', error.message);
+  await pool.end();
+  process.exit(1);
+});
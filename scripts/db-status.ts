@@ -152,6 +152,30 @@ async function getStatus(): Promise<void> {
 
   console.log(`\n  🎯 Total User Picks:      ${totalPicks}`);
 
+  // Last catalog sync
+  console.log(`\n  🔄 Last Sync:`);
+  try {
+    const syncResult = await pool.query<{
+      id: number;
+      status: string;
+      started_at: Date;
+      movies_updated: number;
+      movies_added: number;
+      errors: number;
+    }>('SELECT id, status, started_at, movies_updated, movies_added, errors FROM sync_runs ORDER BY id DESC LIMIT 1');
+    const run = syncResult.rows[0];
+    if (run) {
+      console.log(
+        `     #${run.id} ${run.status} at ${run.started_at.toISOString()} ` +
+          `(↻ ${run.movies_updated}, ✓ ${run.movies_added}, ✗ ${run.errors})`
+      );
+    } else {
+      console.log(`     (never run)`);
+    }
+  } catch {
+    console.log(`     (no sync_runs table found)`);
+  }
+
   console.log(`
 ╚══════════════════════════════════════════════════════════════════════╝
 `);
@@ -0,0 +1,226 @@
+#!/usr/bin/env npx tsx
+/**
+ * Fake TMDB Server
+ *
+ * Serves the subset of the TMDB v3 API that Muse uses from local fixture
+ * files, so the seeders, trailer and synopsis routes work fully offline.
+ *
+ * Usage:
+ *   npm run tmdb:fake
+ *   TMDB_BASE_URL=http://localhost:4010 npm run seed
+ *
+ * Options:
+ *   --port <number>          Port to listen on (default: 4010)
+ *   --fixtures <path>        Fixture file (default: scripts/fixtures/tmdb-movies.json)
+ *   --fail-rate <0-1>        Fraction of requests answered with a 503
+ *   --throttle-every <n>     Answer every nth request with a 429 and Retry-After: 1
+ *   --help, -h               Show this help message
+ */
+
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import Fastify from 'fastify';
+import type { TMDBGenre, TMDBMovie, TMDBTranslation, TMDBVideo } from '../src/services/tmdb.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface FixtureMovie extends Omit<TMDBMovie, 'translations'> {
+  popularity: number;
+  videos: TMDBVideo[];
+  // Keyed by TMDB locale, e.g. "fr-FR"
+  translations: Record<string, { title: string; overview: string; tagline?: string }>;
+}
+
+// Genre names keyed by TMDB locale; other locales get "en-US"
+type GenreFixture = Record<string, TMDBGenre[]>;
+
+interface FakeOptions {
+  port: number;
+  fixtures: string;
+  failRate: number;
+  throttleEvery: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PAGE_SIZE = 20;
+const DEFAULT_FIXTURES = fileURLToPath(new URL('./fixtures/tmdb-movies.json', import.meta.url));
+const GENRE_FIXTURES = fileURLToPath(new URL('./fixtures/tmdb-genres.json', import.meta.url));
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseArgs(): FakeOptions {
+  const args = process.argv.slice(2);
+  const options: FakeOptions = {
+    port: parseInt(process.env.FAKE_TMDB_PORT || '4010', 10),
+    fixtures: DEFAULT_FIXTURES,
+    failRate: 0,
+    throttleEvery: 0,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--help' || arg === '-h') {
+      console.log('Usage: npx tsx scripts/fake-tmdb.ts [--port n] [--fixtures path] [--fail-rate 0-1] [--throttle-every n]');
+      process.exit(0);
+    }
+
+    if (arg === '--port') {
+      options.port = parseInt(args[++i], 10) || options.port;
+    } else if (arg === '--fixtures') {
+      options.fixtures = args[++i];
+    } else if (arg === '--fail-rate') {
+      options.failRate = Math.min(1, Math.max(0, parseFloat(args[++i]) || 0));
+    } else if (arg === '--throttle-every') {
+      options.throttleEvery = parseInt(args[++i], 10) || 0;
+    }
+  }
+
+  return options;
+}
+
+// Strip fixture-only fields so responses match the real API shape
+function toDetails(movie: FixtureMovie, language?: string): TMDBMovie {
+  const { popularity: _popularity, videos: _videos, translations, ...details } = movie;
+  const translation = language ? translations[language] : undefined;
+
+  // Like TMDB, a locale without a translation gets an empty overview
+  if (language && !language.startsWith('en')) {
+    return {
+      ...details,
+      title: translation?.title || details.title,
+      overview: translation?.overview ?? '',
+      tagline: translation?.tagline ?? '',
+    };
+  }
+  return details;
+}
+
+function toTranslations(movie: FixtureMovie): TMDBTranslation[] {
+  return Object.entries(movie.translations).map(([locale, translation]) => {
+    const [language, region] = locale.split('-');
+    return {
+      iso_639_1: language,
+      iso_3166_1: region,
+      data: { title: translation.title, overview: translation.overview, tagline: translation.tagline ?? '' },
+    };
+  });
+}
+
+function toListItem(movie: FixtureMovie): TMDBMovie {
+  const { genres, production_countries: _countries, runtime: _runtime, ...details } = toDetails(movie);
+  return { ...details, genre_ids: (genres || []).map((g) => g.id) };
+}
+
+function paginate(movies: FixtureMovie[], pageParam: string | undefined) {
+  const page = Math.max(1, parseInt(pageParam || '1', 10) || 1);
+  const totalPages = Math.max(1, Math.ceil(movies.length / PAGE_SIZE));
+  return {
+    page,
+    total_pages: totalPages,
+    total_results: movies.length,
+    results: movies.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE).map(toListItem),
+  };
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+async function start(options: FakeOptions): Promise<void> {
+  const movies = JSON.parse(readFileSync(options.fixtures, 'utf8')) as FixtureMovie[];
+  const genres = JSON.parse(readFileSync(GENRE_FIXTURES, 'utf8')) as GenreFixture;
+  const byId = new Map(movies.map((m) => [m.id, m]));
+  const popular = [...movies].sort((a, b) => b.popularity - a.popularity);
+  const topRated = [...movies].sort((a, b) => b.vote_average - a.vote_average);
+
+  const fastify = Fastify({ logger: { level: 'info' } });
+  let requestCount = 0;
+
+  // Injected failures, for exercising retries and the circuit breaker
+  fastify.addHook('onRequest', async (_request, reply) => {
+    requestCount++;
+    if (options.throttleEvery > 0 && requestCount % options.throttleEvery === 0) {
+      return reply.status(429).header('Retry-After', '1').send({ status_code: 25, status_message: 'Rate limited' });
+    }
+    if (Math.random() < options.failRate) {
+      return reply.status(503).send({ status_code: 9, status_message: 'Service unavailable' });
+    }
+  });
+
+  fastify.get<{ Querystring: { page?: string } }>('/movie/popular', async (request) =>
+    paginate(popular, request.query.page)
+  );
+
+  fastify.get<{ Querystring: { page?: string } }>('/movie/top_rated', async (request) =>
+    paginate(topRated, request.query.page)
+  );
+
+  // Every fixture counts as changed, so a sync refreshes them all
+  fastify.get<{ Querystring: { page?: string } }>('/movie/changes', async (request) => {
+    const page = paginate(movies, request.query.page);
+    return { ...page, results: page.results.map((m) => ({ id: m.id, adult: m.adult })) };
+  });
+
+  fastify.get<{ Querystring: Record<string, string | undefined> }>('/discover/movie', async (request) => {
+    const from = request.query['primary_release_date.gte'] || '0000-00-00';
+    const to = request.query['primary_release_date.lte'] || '9999-99-99';
+    const minVotes = parseInt(request.query['vote_count.gte'] || '0', 10);
+    const released = movies
+      .filter((m) => m.release_date >= from && m.release_date <= to && m.vote_count >= minVotes)
+      .sort((a, b) => b.release_date.localeCompare(a.release_date));
+    return paginate(released, request.query.page);
+  });
+
+  fastify.get<{ Querystring: { language?: string } }>('/genre/movie/list', async (request) => ({
+    genres: genres[request.query.language || 'en-US'] || genres['en-US'],
+  }));
+
+  fastify.get<{ Params: { id: string }; Querystring: { language?: string; append_to_response?: string } }>(
+    '/movie/:id',
+    async (request, reply) => {
+      const movie = byId.get(Number(request.params.id));
+      if (!movie) {
+        return reply.status(404).send({ status_code: 34, status_message: 'The resource you requested could not be found.' });
+      }
+
+      const details = toDetails(movie, request.query.language);
+      const append = (request.query.append_to_response || '').split(',');
+      if (append.includes('translations')) {
+        details.translations = { translations: toTranslations(movie) };
+      }
+      return details;
+    }
+  );
+
+  fastify.get<{ Params: { id: string } }>('/movie/:id/translations', async (request, reply) => {
+    const movie = byId.get(Number(request.params.id));
+    if (!movie) {
+      return reply.status(404).send({ status_code: 34, status_message: 'The resource you requested could not be found.' });
+    }
+    return { id: movie.id, translations: toTranslations(movie) };
+  });
+
+  fastify.get<{ Params: { id: string } }>('/movie/:id/videos', async (request, reply) => {
+    const movie = byId.get(Number(request.params.id));
+    if (!movie) {
+      return reply.status(404).send({ status_code: 34, status_message: 'The resource you requested could not be found.' });
+    }
+    return { id: movie.id, results: movie.videos };
+  });
+
+  await fastify.listen({ port: options.port, host: '0.0.0.0' });
+  console.log(`Fake TMDB serving ${movies.length} movies — set TMDB_BASE_URL=http://localhost:${options.port}`);
+}
+
+start(parseArgs()).catch((error) => {
+  console.error('Fake TMDB failed to start:', error);
+  process.exit(1);
+});
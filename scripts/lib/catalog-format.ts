@@ -0,0 +1,137 @@
+/**
+ * Catalog file format shared by catalog:export and catalog:import.
+ *
+ * A catalog is a set of tables. Movies are keyed by tmdb_id, and link and
+ * translation rows reference movies by tmdb_id, so a catalog can be loaded
+ * into any database regardless of its internal movie IDs.
+ *
+ *   jsonl  One file; each line is a row with a "table" field,
+ *          e.g. {"table":"genres","id":28,"name":"Action"}
+ *   csv    One directory with a <table>.csv file per table and a header row.
+ *          Empty fields are NULL.
+ */
+
+import { join } from 'node:path';
+
+export { toCsvLine } from '../../src/services/csv.js';
+
+export type CatalogFormat = 'jsonl' | 'csv';
+
+type ColumnType = 'int' | 'float' | 'text' | 'bool';
+
+export type CatalogValue = string | number | boolean | null;
+export type CatalogRow = Record<string, CatalogValue>;
+
+// Tables in the order they are written and loaded
+export const CATALOG_TABLES = {
+  genres: { id: 'int', name: 'text' },
+  genre_translations: { genre_id: 'int', locale: 'text', name: 'text' },
+  countries: { code: 'text', name: 'text' },
+  movies: {
+    tmdb_id: 'int',
+    title: 'text',
+    original_title: 'text',
+    year: 'int',
+    runtime: 'int',
+    synopsis: 'text',
+    tagline: 'text',
+    poster_path: 'text',
+    vote_average: 'float',
+    vote_count: 'int',
+    original_language: 'text',
+    adult: 'bool',
+  },
+  movie_genres: { tmdb_id: 'int', genre_id: 'int' },
+  movie_countries: { tmdb_id: 'int', country_code: 'text' },
+  movie_translations: { tmdb_id: 'int', locale: 'text', title: 'text', synopsis: 'text', tagline: 'text' },
+} as const satisfies Record<string, Record<string, ColumnType>>;
+
+export type CatalogTable = keyof typeof CATALOG_TABLES;
+
+export const CATALOG_TABLE_NAMES = Object.keys(CATALOG_TABLES) as CatalogTable[];
+
+export function isCatalogTable(name: unknown): name is CatalogTable {
+  return typeof name === 'string' && name in CATALOG_TABLES;
+}
+
+export function columnsOf(table: CatalogTable): string[] {
+  return Object.keys(CATALOG_TABLES[table]);
+}
+
+function coerce(value: unknown, type: ColumnType): CatalogValue {
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (type) {
+    case 'int': {
+      const n = typeof value === 'number' ? value : parseInt(String(value), 10);
+      return Number.isInteger(n) ? n : null;
+    }
+    case 'float': {
+      const n = typeof value === 'number' ? value : parseFloat(String(value));
+      return isNaN(n) ? null : n;
+    }
+    case 'bool':
+      return value === true || value === 'true' || value === 't' || value === '1';
+    case 'text':
+      return String(value);
+  }
+}
+
+// Keep only the table's columns, coerced to their types (database values
+// and CSV strings alike). Missing columns become null.
+export function normalizeRow(table: CatalogTable, row: Record<string, unknown>): CatalogRow {
+  const columns: Record<string, ColumnType> = CATALOG_TABLES[table];
+  const normalized: CatalogRow = {};
+  for (const [column, type] of Object.entries(columns)) {
+    normalized[column] = coerce(row[column], type);
+  }
+  return normalized;
+}
+
+export function csvPath(dir: string, table: CatalogTable): string {
+  return join(dir, `${table}.csv`);
+}
+
+// Parse RFC 4180 CSV text into rows of fields
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last line without a trailing newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
@@ -0,0 +1,177 @@
+/**
+ * Catalog writes shared by the seeders and the sync job.
+ */
+
+import { pool } from '../../src/db/client.js';
+import { fetchGenreList, type TMDBMovie, type TMDBTranslation } from '../../src/services/tmdb.js';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, TMDB_LOCALES } from '../../src/services/i18n.js';
+
+// Insert or refresh a movie from TMDB details. Returns null when the
+// movie is incomplete or below the quality bar.
+export async function upsertMovie(movie: TMDBMovie, minVotes: number): Promise<number | null> {
+  // Skip if missing required fields
+  if (!movie.title || !movie.release_date) {
+    return null;
+  }
+
+  const year = parseInt(movie.release_date.substring(0, 4), 10);
+  if (isNaN(year)) {
+    return null;
+  }
+
+  // Skip if below quality threshold
+  if (movie.vote_count < minVotes) {
+    return null;
+  }
+
+  // Skip adult content
+  if (movie.adult) {
+    return null;
+  }
+
+  // Skip if no poster
+  if (!movie.poster_path) {
+    return null;
+  }
+
+  const result = await pool.query<{ id: number }>(
+    `INSERT INTO movies (
+      tmdb_id, title, original_title, year, runtime, synopsis,
+      poster_path, vote_average, vote_count, original_language, adult, tagline
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    ON CONFLICT (tmdb_id) DO UPDATE SET
+      title = EXCLUDED.title,
+      original_title = EXCLUDED.original_title,
+      year = EXCLUDED.year,
+      runtime = EXCLUDED.runtime,
+      synopsis = EXCLUDED.synopsis,
+      poster_path = EXCLUDED.poster_path,
+      vote_average = EXCLUDED.vote_average,
+      vote_count = EXCLUDED.vote_count,
+      original_language = EXCLUDED.original_language,
+      tagline = EXCLUDED.tagline
+    RETURNING id`,
+    [
+      movie.id,
+      movie.title,
+      movie.original_title,
+      year,
+      movie.runtime || null,
+      movie.overview || null,
+      movie.poster_path,
+      movie.vote_average,
+      movie.vote_count,
+      movie.original_language,
+      movie.adult,
+      movie.tagline || null,
+    ]
+  );
+
+  return result.rows[0].id;
+}
+
+// Replace a movie's genres with the given ones
+export async function linkMovieGenres(movieId: number, genreIds: number[]): Promise<void> {
+  await pool.query(
+    'DELETE FROM movie_genres WHERE movie_id = $1 AND genre_id <> ALL($2)',
+    [movieId, genreIds]
+  );
+  for (const genreId of genreIds) {
+    await pool.query(
+      `INSERT INTO movie_genres (movie_id, genre_id)
+       VALUES ($1, $2)
+       ON CONFLICT DO NOTHING`,
+      [movieId, genreId]
+    );
+  }
+}
+
+// Replace a movie's production countries with the given ones
+export async function linkMovieCountries(
+  movieId: number,
+  countries: { iso_3166_1: string }[]
+): Promise<void> {
+  const codes = countries.map((c) => c.iso_3166_1);
+  await pool.query(
+    'DELETE FROM movie_countries WHERE movie_id = $1 AND country_code <> ALL($2)',
+    [movieId, codes]
+  );
+  for (const code of codes) {
+    // Only link if country exists in our table
+    await pool.query(
+      `INSERT INTO movie_countries (movie_id, country_code)
+       SELECT $1, code FROM countries WHERE code = $2
+       ON CONFLICT DO NOTHING`,
+      [movieId, code]
+    );
+  }
+}
+
+// Store translations for the supported locales, preferring the region the
+// API fetches in (e.g. pt-BR over pt-PT). Empty fields fall back to English.
+export async function saveMovieTranslations(
+  movieId: number,
+  translations: TMDBTranslation[]
+): Promise<void> {
+  for (const locale of SUPPORTED_LOCALES) {
+    if (locale === DEFAULT_LOCALE) continue;
+
+    const region = TMDB_LOCALES[locale].split('-')[1];
+    const matches = translations.filter((t) => t.iso_639_1 === locale);
+    const translation = matches.find((t) => t.iso_3166_1 === region) || matches[0];
+    if (!translation) continue;
+
+    const { title, overview, tagline } = translation.data;
+    if (!title && !overview && !tagline) continue;
+
+    await pool.query(
+      `INSERT INTO movie_translations (movie_id, locale, title, synopsis, tagline)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (movie_id, locale) DO UPDATE SET
+         title = EXCLUDED.title,
+         synopsis = EXCLUDED.synopsis,
+         tagline = EXCLUDED.tagline,
+         updated_at = NOW()`,
+      [movieId, locale, title || null, overview || null, tagline || null]
+    );
+  }
+}
+
+export async function saveGenreTranslations(): Promise<void> {
+  for (const locale of SUPPORTED_LOCALES) {
+    if (locale === DEFAULT_LOCALE) continue;
+
+    const genres = await fetchGenreList(TMDB_LOCALES[locale]);
+    for (const genre of genres) {
+      if (!genre.name) continue;
+      // Only translate genres that exist in our table
+      await pool.query(
+        `INSERT INTO genre_translations (genre_id, locale, name)
+         SELECT id, $2, $3 FROM genres WHERE id = $1
+         ON CONFLICT (genre_id, locale) DO UPDATE SET name = EXCLUDED.name`,
+        [genre.id, locale, genre.name]
+      );
+    }
+  }
+}
+
+// Save a movie with its genres, countries and translations.
+// details should be fetched with append_to_response=translations.
+export async function saveMovie(details: TMDBMovie, minVotes: number): Promise<number | null> {
+  const movieId = await upsertMovie(details, minVotes);
+  if (!movieId) {
+    return null;
+  }
+
+  if (details.genres) {
+    await linkMovieGenres(movieId, details.genres.map((g) => g.id));
+  }
+  if (details.production_countries) {
+    await linkMovieCountries(movieId, details.production_countries);
+  }
+  if (details.translations) {
+    await saveMovieTranslations(movieId, details.translations.translations);
+  }
+
+  return movieId;
+}
@@ -0,0 +1,391 @@
+#!/usr/bin/env npx tsx
+/**
+ * Incremental Catalog Sync
+ *
+ * Keeps the catalog fresh without a full re-seed:
+ *   1. Refreshes movies already in the database that appear in TMDB's
+ *      changes feed since the last successful sync (votes, ratings,
+ *      posters, runtimes, genres, countries, translations)
+ *   2. Adds recent releases (by primary release date) that meet the
+ *      quality bar
+ *
+ * Each run is recorded in sync_runs; the changes cursor in sync_cursors
+ * only moves forward when a run succeeds without errors. A TMDB failure
+ * other than a 404 (including an open circuit) stops the run, while a
+ * movie that fails to save is counted and the run is marked partial.
+ * Safe to run from cron.
+ *
+ * Usage:
+ *   npm run sync
+ *   npx tsx scripts/sync.ts [options]
+ *
+ * Options:
+ *   --since <YYYY-MM-DD>     Read the changes feed from this date instead of the cursor
+ *   --release-days <number>  How far back to look for new releases (default: 120)
+ *   --min-votes <number>     Minimum vote count for new releases
+ *                            (default: the pick floor, config.selection.minVoteCount)
+ *   --help, -h               Show this help message
+ *
+ * Prerequisites:
+ *   - TMDB_ACCESS_TOKEN (or TMDB_API_KEY) must be set in .env,
+ *     or TMDB_BASE_URL must point at the fake TMDB server
+ *   - Database must be migrated (npm run migrate)
+ */
+
+import { pool } from '../src/db/client.js';
+import { deleteTmdbCacheEntries } from '../src/db/queries.js';
+import {
+  fetchMovieChanges,
+  fetchMovieDetails,
+  fetchReleasedMovies,
+  isTmdbConfigured,
+  TmdbError,
+} from '../src/services/tmdb.js';
+import { saveMovie } from './lib/catalog.js';
+import { config } from '../src/config.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SyncOptions {
+  since: Date | null;
+  releaseDays: number;
+  minVotes: number;
+}
+
+interface SyncReport {
+  checked: number;
+  updated: number;
+  added: number;
+  skipped: number;
+  errors: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CURSOR_NAME = 'movie_changes';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// TMDB's changes feed accepts at most 14 days per request
+const CHANGES_WINDOW_DAYS = 14;
+// First run without a cursor or --since
+const DEFAULT_CHANGES_LOOKBACK_DAYS = 1;
+// TMDB never returns more than 500 pages
+const MAX_PAGES = 500;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseArgs(): SyncOptions {
+  const args = process.argv.slice(2);
+  const options: SyncOptions = {
+    since: null,
+    releaseDays: 120,
+    // Releases below the default pick floor would never be picked by default
+    minVotes: config.selection.minVoteCount,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    }
+
+    if (arg === '--since') {
+      const since = new Date(`${args[++i]}T00:00:00Z`);
+      if (isNaN(since.getTime())) {
+        console.error('\n  ❌ Error: --since must be a date like 2024-01-31\n');
+        process.exit(1);
+      }
+      options.since = since;
+    } else if (arg === '--release-days') {
+      options.releaseDays = parseInt(args[++i], 10) || 120;
+    } else if (arg === '--min-votes') {
+      options.minVotes = parseInt(args[++i], 10) || config.selection.minVoteCount;
+    }
+  }
+
+  return options;
+}
+
+function printHelp(): void {
+  console.log(`
+╔══════════════════════════════════════════════════════════════════════╗
+║                    🔄 Muse Catalog Sync                              ║
+╚══════════════════════════════════════════════════════════════════════╝
+
+Usage:
+  npx tsx scripts/sync.ts [options]
+
+Options:
+  --since <YYYY-MM-DD>     Read the changes feed from this date instead of the cursor
+  --release-days <number>  How far back to look for new releases (default: 120)
+  --min-votes <number>     Minimum vote count for new releases (default: ${config.selection.minVoteCount})
+  --help, -h               Show this help message
+
+Examples:
+  npx tsx scripts/sync.ts
+  npx tsx scripts/sync.ts --since 2024-01-01 --release-days 365
+`);
+}
+
+// TMDB takes dates as YYYY-MM-DD (UTC)
+function toDateString(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+// ============================================================================
+// Database Operations
+// ============================================================================
+
+async function getCursor(): Promise<Date | null> {
+  const result = await pool.query<{ value: Date }>(
+    'SELECT value FROM sync_cursors WHERE name = $1',
+    [CURSOR_NAME]
+  );
+  return result.rows[0]?.value ?? null;
+}
+
+async function setCursor(value: Date): Promise<void> {
+  await pool.query(
+    `INSERT INTO sync_cursors (name, value)
+     VALUES ($1, $2)
+     ON CONFLICT (name) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()`,
+    [CURSOR_NAME, value]
+  );
+}
+
+async function startRun(
+  changesFrom: Date,
+  changesTo: Date,
+  releasesFrom: string,
+  releasesTo: string
+): Promise<number> {
+  const result = await pool.query<{ id: number }>(
+    `INSERT INTO sync_runs (changes_from, changes_to, releases_from, releases_to)
+     VALUES ($1, $2, $3, $4)
+     RETURNING id`,
+    [changesFrom, changesTo, releasesFrom, releasesTo]
+  );
+  return result.rows[0].id;
+}
+
+async function finishRun(
+  runId: number,
+  status: 'succeeded' | 'partial' | 'failed',
+  report: SyncReport,
+  errorMessage: string | null
+): Promise<void> {
+  await pool.query(
+    `UPDATE sync_runs SET
+       status = $2,
+       finished_at = NOW(),
+       movies_checked = $3,
+       movies_updated = $4,
+       movies_added = $5,
+       movies_skipped = $6,
+       errors = $7,
+       error_message = $8
+     WHERE id = $1`,
+    [runId, status, report.checked, report.updated, report.added, report.skipped, report.errors, errorMessage]
+  );
+}
+
+// Map TMDB IDs already in the catalog to internal movie IDs
+async function getExistingMovieIds(tmdbIds: number[]): Promise<Map<number, number>> {
+  if (tmdbIds.length === 0) return new Map();
+
+  const result = await pool.query<{ id: number; tmdb_id: number }>(
+    'SELECT id, tmdb_id FROM movies WHERE tmdb_id = ANY($1)',
+    [tmdbIds]
+  );
+  return new Map(result.rows.map((row) => [row.tmdb_id, row.id]));
+}
+
+// ============================================================================
+// Sync Steps
+// ============================================================================
+
+// Every TMDB ID in the changes feed between two instants, in 14-day windows
+async function collectChangedIds(from: Date, to: Date): Promise<Set<number>> {
+  const ids = new Set<number>();
+
+  for (let start = from; start < to; start = new Date(start.getTime() + CHANGES_WINDOW_DAYS * DAY_MS)) {
+    const end = new Date(Math.min(start.getTime() + CHANGES_WINDOW_DAYS * DAY_MS, to.getTime()));
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const response = await fetchMovieChanges(toDateString(start), toDateString(end), page);
+      for (const change of response.results) {
+        ids.add(change.id);
+      }
+      if (page >= response.total_pages) break;
+    }
+  }
+
+  return ids;
+}
+
+// Refresh changed movies that are already in the catalog
+async function refreshChangedMovies(changedIds: Set<number>, report: SyncReport): Promise<void> {
+  const existing = await getExistingMovieIds([...changedIds]);
+
+  console.log(`  ${changedIds.size} changed on TMDB, ${existing.size} in the catalog\n`);
+
+  for (const [tmdbId, movieId] of existing) {
+    report.checked++;
+    try {
+      const details = await fetchMovieDetails(tmdbId, undefined, ['translations']);
+
+      // Existing movies are refreshed regardless of vote count
+      const savedId = await saveMovie(details, 0);
+      if (savedId) {
+        report.updated++;
+        // Cached trailers and synopses may be out of date too
+        await deleteTmdbCacheEntries(movieId);
+      } else {
+        report.skipped++;
+      }
+    } catch (error) {
+      // Movies removed from TMDB stay in the catalog as they are
+      if (error instanceof TmdbError && error.status === 404) {
+        report.skipped++;
+      } else if (error instanceof TmdbError) {
+        // TMDB is failing; the rest of the run would fail the same way
+        throw error;
+      } else {
+        report.errors++;
+        console.error(`  ✗ Failed to refresh TMDB movie ${tmdbId}:`, (error as Error).message);
+      }
+    }
+  }
+}
+
+// Add releases from the window that aren't in the catalog yet
+async function addNewReleases(
+  fromDate: string,
+  toDate: string,
+  minVotes: number,
+  report: SyncReport
+): Promise<void> {
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const response = await fetchReleasedMovies(fromDate, toDate, minVotes, page);
+    const existing = await getExistingMovieIds(response.results.map((m) => m.id));
+
+    for (const movie of response.results) {
+      if (existing.has(movie.id)) continue;
+
+      report.checked++;
+      try {
+        const details = await fetchMovieDetails(movie.id, undefined, ['translations']);
+        const movieId = await saveMovie(details, minVotes);
+        if (movieId) {
+          report.added++;
+        } else {
+          report.skipped++;
+        }
+      } catch (error) {
+        // Gone from TMDB since the release list was fetched
+        if (error instanceof TmdbError && error.status === 404) {
+          report.skipped++;
+        } else if (error instanceof TmdbError) {
+          throw error;
+        } else {
+          report.errors++;
+          console.error(`  ✗ Failed to add TMDB movie ${movie.id}:`, (error as Error).message);
+        }
+      }
+    }
+
+    if (page >= response.total_pages) break;
+  }
+}
+
+// ============================================================================
+// Main Sync Function
+// ============================================================================
+
+async function sync(options: SyncOptions): Promise<void> {
+  if (!isTmdbConfigured()) {
+    console.error('\n  ❌ Error: TMDB_ACCESS_TOKEN is not set in .env\n');
+    process.exit(1);
+  }
+
+  // Changes made while the run is in progress are picked up next time
+  const startedAt = new Date();
+  const changesFrom =
+    options.since ??
+    (await getCursor()) ??
+    new Date(startedAt.getTime() - DEFAULT_CHANGES_LOOKBACK_DAYS * DAY_MS);
+  const releasesFrom = toDateString(new Date(startedAt.getTime() - options.releaseDays * DAY_MS));
+  const releasesTo = toDateString(startedAt);
+
+  console.log(`
+╔══════════════════════════════════════════════════════════════════════╗
+║                    🔄 Muse Catalog Sync                              ║
+╚══════════════════════════════════════════════════════════════════════╝
+
+  Changes since:  ${changesFrom.toISOString()}
+  Releases:       ${releasesFrom} → ${releasesTo}
+  Min Votes:      ${options.minVotes}
+`);
+
+  const runId = await startRun(changesFrom, startedAt, releasesFrom, releasesTo);
+  const report: SyncReport = { checked: 0, updated: 0, added: 0, skipped: 0, errors: 0 };
+
+  try {
+    console.log('  Reading TMDB changes feed...');
+    const changedIds = await collectChangedIds(changesFrom, startedAt);
+    await refreshChangedMovies(changedIds, report);
+
+    console.log('  Looking for new releases...\n');
+    await addNewReleases(releasesFrom, releasesTo, options.minVotes, report);
+
+    // Movies that failed are only retried if the next run reads the same changes
+    if (report.errors > 0) {
+      await finishRun(runId, 'partial', report, `${report.errors} movies failed`);
+    } else {
+      await setCursor(startedAt);
+      await finishRun(runId, 'succeeded', report, null);
+    }
+  } catch (error) {
+    await finishRun(runId, 'failed', report, (error as Error).message);
+    throw error;
+  }
+
+  console.log(`
+╔══════════════════════════════════════════════════════════════════════╗
+║                         Sync Complete! 🎉                            ║
+╚══════════════════════════════════════════════════════════════════════╝
+
+  🔎 Movies checked:  ${report.checked}
+  ↻  Movies updated:  ${report.updated}
+  ✓ Movies added:    ${report.added}
+  ⊘ Movies skipped:  ${report.skipped}
+  ✗ Errors:          ${report.errors}
+
+  📋 Recorded as sync run #${runId}
+`);
+
+  if (report.errors > 0) {
+    console.error('  ⚠️  Some movies failed; the cursor was not advanced so the next run retries them\n');
+    process.exitCode = 1;
+  }
+
+  await pool.end();
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+const options = parseArgs();
+sync(options).catch(async (error) => {
+  console.error('\n  ❌ Sync failed:', error.message);
+  await pool.end();
+  process.exit(1);
+});
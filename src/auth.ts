@@ -0,0 +1,110 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { apiError } from './errors.js';
+import { authenticateApiKey } from './services/api-keys.js';
+import { createRateLimiter, type RateLimitResult } from './services/rate-limit.js';
+import { config } from './config.js';
+import type { ApiClient } from './types/index.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    // Null for anonymous requests and routes that don't take an API key
+    apiClient: ApiClient | null;
+  }
+}
+
+// Health checks and metrics stay open for load balancers and Prometheus;
+// admin routes use ADMIN_TOKEN
+const PUBLIC_ROUTE_PREFIXES = ['/health', '/metrics', '/admin/'];
+
+const limiter = createRateLimiter(config.rateLimit.windowMs);
+
+function isPublicRoute(request: FastifyRequest): boolean {
+  const url = request.routeOptions.url;
+  return (
+    request.method === 'OPTIONS' ||
+    (url !== undefined && PUBLIC_ROUTE_PREFIXES.some((prefix) => url.startsWith(prefix)))
+  );
+}
+
+// Body fields naming a session the request acts on
+const SESSION_BODY_FIELDS = ['sessionId', 'fromSessionId', 'toSessionId'] as const;
+
+// Sessions a request acts on: session body fields or the :id of /sessions routes
+function requestSessionIds(request: FastifyRequest): string[] {
+  const body = request.body as Partial<Record<(typeof SESSION_BODY_FIELDS)[number], unknown>> | undefined;
+  const sessionIds = SESSION_BODY_FIELDS.map((field) => body?.[field]).filter(
+    (value): value is string => typeof value === 'string'
+  );
+  if (request.routeOptions.url?.startsWith('/sessions/:id')) {
+    sessionIds.push((request.params as { id: string }).id);
+  }
+  return [...new Set(sessionIds)];
+}
+
+function setRateLimitHeaders(reply: FastifyReply, result: RateLimitResult): void {
+  reply.header('RateLimit-Limit', result.limit);
+  reply.header('RateLimit-Remaining', result.remaining);
+  reply.header('RateLimit-Reset', result.resetSeconds);
+}
+
+function rejectRateLimited(reply: FastifyReply, result: RateLimitResult): FastifyReply {
+  return reply
+    .status(429)
+    .header('Retry-After', result.resetSeconds)
+    .send(apiError('RATE_LIMITED', `Rate limit exceeded. Retry in ${result.resetSeconds}s.`));
+}
+
+// API key authentication and rate limiting for every client route.
+// Headers report whichever limit (key or session) is closest to running out.
+export function registerClientAuth(fastify: FastifyInstance): void {
+  fastify.decorateRequest('apiClient', null);
+
+  fastify.addHook('onRequest', async (request, reply) => {
+    if (isPublicRoute(request)) return;
+
+    const key = request.headers['x-api-key'];
+    if (typeof key === 'string' && key !== '') {
+      // Guessed keys miss the lookup cache and hit the database, so an IP
+      // that keeps sending bad keys is cut off before the lookup
+      const failuresKey = `auth-failures:${request.ip}`;
+      const failures = limiter.peek(failuresKey, config.rateLimit.failedAuthPerIp);
+      if (!failures.allowed) {
+        return rejectRateLimited(reply, failures);
+      }
+
+      request.apiClient = await authenticateApiKey(key);
+      if (!request.apiClient) {
+        limiter.hit(failuresKey, config.rateLimit.failedAuthPerIp);
+        return reply.status(401).send(apiError('UNAUTHORIZED', 'Invalid API key.'));
+      }
+    } else if (config.apiKeys.required) {
+      return reply.status(401).send(apiError('UNAUTHORIZED', 'API key required in the X-API-Key header.'));
+    }
+
+    const client = request.apiClient;
+    const result = limiter.hit(
+      client ? `key:${client.id}` : `ip:${request.ip}`,
+      client?.rateLimit ?? config.rateLimit.perKey
+    );
+    setRateLimitHeaders(reply, result);
+    if (!result.allowed) {
+      return rejectRateLimited(reply, result);
+    }
+  });
+
+  // The session is only known once the body has been parsed
+  fastify.addHook('preHandler', async (request, reply) => {
+    if (isPublicRoute(request)) return;
+
+    for (const sessionId of requestSessionIds(request)) {
+      const result = limiter.hit(`session:${sessionId}`, config.rateLimit.perSession);
+      const remaining = Number(reply.getHeader('RateLimit-Remaining') ?? Infinity);
+      if (result.remaining < remaining) {
+        setRateLimitHeaders(reply, result);
+      }
+      if (!result.allowed) {
+        return rejectRateLimited(reply, result);
+      }
+    }
+  });
+}
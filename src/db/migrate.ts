@@ -1,57 +1,276 @@
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
+/**
+ * Migration runner
+ *
+ * Usage:
+ *   npm run migrate                      Apply pending migrations
+ *   npm run migrate:status               List migrations and whether they have run
+ *   npm run migrate:down                 Roll back the latest migration
+ *   npm run migrate:down -- --to 012     Roll back every migration after 012
+ *   npm run migrate:down -- --to 0       Roll back every migration
+ *
+ * Add --dry-run to migrate or migrate:down to print the plan without running it.
+ *
+ * Each migration runs in its own transaction. Runs hold a Postgres advisory
+ * lock, so instances starting together apply migrations one at a time. The
+ * checksum of every applied file is stored; if an applied file is edited
+ * later, migrate and migrate:down refuse to run until the edit is reverted.
+ */
+
+import type { PoolClient } from 'pg';
 import { pool } from './client.js';
+import { loadMigrations, type Migration } from './migration-files.js';
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const migrationsDir = path.join(__dirname, 'migrations');
+type Command = 'up' | 'down' | 'status';
 
-async function migrate(): Promise<void> {
-  console.log('Running migrations...');
+interface MigrateOptions {
+  command: Command;
+  // Down target: a file name or its number; '0' rolls back everything
+  to: string | null;
+  dryRun: boolean;
+}
+
+interface AppliedMigration {
+  name: string;
+  // Null for migrations recorded before checksums were stored
+  checksum: string | null;
+  executed_at: Date;
+}
+
+// Shared by every instance of the app, so concurrent runs queue on it
+const LOCK_NAME = 'muse:migrate';
+
+function parseArgs(): MigrateOptions {
+  const args = process.argv.slice(2);
+  const options: MigrateOptions = { command: 'up', to: null, dryRun: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === 'up' || arg === 'down' || arg === 'status') {
+      options.command = arg;
+    } else if (arg === '--to') {
+      options.to = args[++i] ?? null;
+      if (options.to === null) {
+        throw new Error('--to needs a migration, e.g. --to 012');
+      }
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else {
+      throw new Error(`Unknown argument '${arg}'`);
+    }
+  }
+
+  if (options.to !== null && options.command !== 'down') {
+    throw new Error('--to only applies to migrate:down');
+  }
+  return options;
+}
+
+// Applied migrations, oldest first; empty before the first run
+async function getApplied(client: PoolClient): Promise<AppliedMigration[]> {
+  try {
+    // SELECT * so tables created before the checksum column still work
+    const result = await client.query<AppliedMigration>('SELECT * FROM _migrations ORDER BY name');
+    return result.rows.map((row) => ({ ...row, checksum: row.checksum ?? null }));
+  } catch (error) {
+    // undefined_table: nothing has run yet
+    if ((error as { code?: string }).code === '42P01') {
+      return [];
+    }
+    throw error;
+  }
+}
 
-  // Create migrations tracking table if it doesn't exist
-  await pool.query(`
+async function ensureMigrationsTable(client: PoolClient): Promise<void> {
+  await client.query(`
     CREATE TABLE IF NOT EXISTS _migrations (
       id SERIAL PRIMARY KEY,
       name VARCHAR(255) NOT NULL UNIQUE,
-      executed_at TIMESTAMP DEFAULT NOW()
+      executed_at TIMESTAMP DEFAULT NOW(),
+      checksum CHAR(64)
     )
   `);
+  await client.query('ALTER TABLE _migrations ADD COLUMN IF NOT EXISTS checksum CHAR(64)');
+}
+
+// Applied migrations whose file changed since they ran
+function findDrift(migrations: Migration[], applied: AppliedMigration[]): string[] {
+  const files = new Map(migrations.map((m) => [m.name, m]));
+  return applied
+    .filter((row) => row.checksum !== null && files.has(row.name) && files.get(row.name)!.checksum !== row.checksum)
+    .map((row) => row.name);
+}
+
+function assertNoDrift(migrations: Migration[], applied: AppliedMigration[]): void {
+  const drifted = findDrift(migrations, applied);
+  if (drifted.length > 0) {
+    throw new Error(
+      `Applied migrations were edited after they ran: ${drifted.join(', ')}. ` +
+        'Revert the edits and put the changes in a new migration.'
+    );
+  }
+}
+
+// Match '012', '12' or '012_create_movie_translations.sql'
+function resolveTarget(target: string, migrations: Migration[]): string | null {
+  if (target === '0') return null;
 
-  // Get list of executed migrations
-  const executedResult = await pool.query<{ name: string }>('SELECT name FROM _migrations');
-  const executedMigrations = new Set(executedResult.rows.map((row) => row.name));
+  const match = migrations.find(
+    (m) => m.name === target || (/^\d+$/.test(target) && parseInt(m.name, 10) === parseInt(target, 10))
+  );
+  if (!match) {
+    throw new Error(`No migration matches --to ${target}`);
+  }
+  return match.name;
+}
+
+async function withLock<T>(client: PoolClient, fn: () => Promise<T>): Promise<T> {
+  await client.query('SELECT pg_advisory_lock(hashtext($1))', [LOCK_NAME]);
+  try {
+    return await fn();
+  } finally {
+    await client.query('SELECT pg_advisory_unlock(hashtext($1))', [LOCK_NAME]);
+  }
+}
+
+async function runInTransaction(client: PoolClient, name: string, fn: () => Promise<void>): Promise<void> {
+  try {
+    await client.query('BEGIN');
+    await fn();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(`  ✗ ${name} (failed)`);
+    throw error;
+  }
+}
 
-  // Get all migration files
-  const files = fs.readdirSync(migrationsDir).filter((f) => f.endsWith('.sql')).sort();
+async function up(client: PoolClient, migrations: Migration[], dryRun: boolean): Promise<void> {
+  const applied = await getApplied(client);
+  assertNoDrift(migrations, applied);
 
-  for (const file of files) {
-    if (executedMigrations.has(file)) {
-      console.log(`  ✓ ${file} (already executed)`);
+  const appliedNames = new Set(applied.map((row) => row.name));
+  const pending = migrations.filter((m) => !appliedNames.has(m.name));
+
+  if (dryRun) {
+    console.log(pending.length > 0 ? 'Would apply:' : 'Nothing to apply.');
+    pending.forEach((m) => console.log(`  → ${m.name}`));
+    return;
+  }
+
+  await ensureMigrationsTable(client);
+
+  // Record checksums for migrations that ran before checksums were stored
+  for (const row of applied) {
+    const migration = migrations.find((m) => m.name === row.name);
+    if (row.checksum === null && migration) {
+      await client.query('UPDATE _migrations SET checksum = $2 WHERE name = $1', [row.name, migration.checksum]);
+    }
+  }
+
+  for (const migration of migrations) {
+    if (appliedNames.has(migration.name)) {
+      console.log(`  ✓ ${migration.name} (already executed)`);
       continue;
     }
 
-    const filePath = path.join(migrationsDir, file);
-    const sql = fs.readFileSync(filePath, 'utf-8');
-
-    try {
-      await pool.query('BEGIN');
-      await pool.query(sql);
-      await pool.query('INSERT INTO _migrations (name) VALUES ($1)', [file]);
-      await pool.query('COMMIT');
-      console.log(`  ✓ ${file} (executed)`);
-    } catch (error) {
-      await pool.query('ROLLBACK');
-      console.error(`  ✗ ${file} (failed)`);
-      throw error;
+    await runInTransaction(client, migration.name, async () => {
+      await client.query(migration.upSql);
+      await client.query('INSERT INTO _migrations (name, checksum) VALUES ($1, $2)', [
+        migration.name,
+        migration.checksum,
+      ]);
+    });
+    console.log(`  ✓ ${migration.name} (executed)`);
+  }
+}
+
+async function down(client: PoolClient, migrations: Migration[], to: string | null, dryRun: boolean): Promise<void> {
+  const applied = await getApplied(client);
+  assertNoDrift(migrations, applied);
+
+  // Without --to, only the latest migration is rolled back
+  const target = to === null ? undefined : resolveTarget(to, migrations);
+  const rollback =
+    target === undefined
+      ? applied.slice(-1)
+      : applied.filter((row) => target === null || row.name > target);
+  rollback.reverse();
+
+  const files = new Map(migrations.map((m) => [m.name, m]));
+  const irreversible = rollback.filter((row) => !files.get(row.name)?.downSql).map((row) => row.name);
+  if (irreversible.length > 0) {
+    throw new Error(`No down migration for ${irreversible.join(', ')}`);
+  }
+
+  if (dryRun) {
+    console.log(rollback.length > 0 ? 'Would roll back:' : 'Nothing to roll back.');
+    rollback.forEach((row) => console.log(`  ← ${row.name}`));
+    return;
+  }
+
+  for (const row of rollback) {
+    await runInTransaction(client, row.name, async () => {
+      await client.query(files.get(row.name)!.downSql!);
+      await client.query('DELETE FROM _migrations WHERE name = $1', [row.name]);
+    });
+    console.log(`  ← ${row.name} (rolled back)`);
+  }
+}
+
+async function status(client: PoolClient, migrations: Migration[]): Promise<void> {
+  const applied = new Map((await getApplied(client)).map((row) => [row.name, row]));
+  const drifted = new Set(findDrift(migrations, [...applied.values()]));
+
+  for (const migration of migrations) {
+    const row = applied.get(migration.name);
+    const state = !row
+      ? 'pending'
+      : drifted.has(migration.name)
+        ? 'EDITED after it ran'
+        : `applied ${row.executed_at.toISOString().substring(0, 16).replace('T', ' ')}`;
+    const reversible = migration.downSql ? '' : ' (no down migration)';
+    console.log(`  ${row ? (drifted.has(migration.name) ? '✗' : '✓') : '·'} ${migration.name.padEnd(40)} ${state}${reversible}`);
+  }
+
+  // Recorded migrations whose file was deleted
+  const names = new Set(migrations.map((m) => m.name));
+  for (const name of applied.keys()) {
+    if (!names.has(name)) {
+      console.log(`  ? ${name.padEnd(40)} applied, file missing`);
     }
   }
 
-  console.log('Migrations complete.');
+  if (drifted.size > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function migrate(): Promise<void> {
+  const options = parseArgs();
+  const migrations = loadMigrations();
+  const client = await pool.connect();
+
+  try {
+    if (options.command === 'status') {
+      await status(client, migrations);
+    } else if (options.command === 'down') {
+      console.log(options.dryRun ? 'Planning rollback...' : 'Rolling back migrations...');
+      await withLock(client, () => down(client, migrations, options.to, options.dryRun));
+      if (!options.dryRun) console.log('Rollback complete.');
+    } else {
+      console.log(options.dryRun ? 'Planning migrations...' : 'Running migrations...');
+      await withLock(client, () => up(client, migrations, options.dryRun));
+      if (!options.dryRun) console.log('Migrations complete.');
+    }
+  } finally {
+    client.release();
+  }
+
   await pool.end();
 }
 
-migrate().catch((error) => {
-  console.error('Migration failed:', error);
+migrate().catch(async (error) => {
+  console.error('Migration failed:', error.message ?? error);
+  await pool.end();
   process.exit(1);
 });
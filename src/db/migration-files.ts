@@ -0,0 +1,52 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// SQL files live in src/db/migrations. tsc doesn't copy them, so a build
+// running from dist/db reads them from src/ instead.
+export const MIGRATIONS_DIR =
+  [path.join(__dirname, 'migrations'), path.resolve(__dirname, '../../src/db/migrations')].find((dir) =>
+    fs.existsSync(dir)
+  ) ?? path.join(__dirname, 'migrations');
+
+// NNN_name.sql applies a migration; NNN_name.down.sql reverts it
+const DOWN_SUFFIX = '.down.sql';
+
+export interface Migration {
+  // Up file name, as recorded in _migrations
+  name: string;
+  upSql: string;
+  // Null when the migration can't be rolled back
+  downSql: string | null;
+  // SHA-256 of the up file, to detect edits after it ran
+  checksum: string;
+}
+
+// Line endings are normalized so a checkout on Windows doesn't look edited
+export function migrationChecksum(sql: string): string {
+  return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+// Up migration file names in the order they run
+export function listMigrationFiles(): string[] {
+  return fs
+    .readdirSync(MIGRATIONS_DIR)
+    .filter((f) => f.endsWith('.sql') && !f.endsWith(DOWN_SUFFIX))
+    .sort();
+}
+
+export function loadMigrations(): Migration[] {
+  return listMigrationFiles().map((name) => {
+    const upSql = fs.readFileSync(path.join(MIGRATIONS_DIR, name), 'utf-8');
+    const downPath = path.join(MIGRATIONS_DIR, name.replace(/\.sql$/, DOWN_SUFFIX));
+    return {
+      name,
+      upSql,
+      downSql: fs.existsSync(downPath) ? fs.readFileSync(downPath, 'utf-8') : null,
+      checksum: migrationChecksum(upSql),
+    };
+  });
+}
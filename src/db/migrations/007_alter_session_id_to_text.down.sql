@@ -0,0 +1,2 @@
+-- Fails if any session ID isn't a UUID (e.g. a Firebase UID)
+ALTER TABLE user_picks ALTER COLUMN session_id TYPE UUID USING session_id::uuid;
@@ -0,0 +1,5 @@
+DROP INDEX idx_movies_original_title_trgm;
+DROP INDEX idx_movies_title_trgm;
+DROP FUNCTION normalize_title(text);
+
+-- pg_trgm and unaccent are left installed; other objects in the database may use them
@@ -0,0 +1,11 @@
+-- Fuzzy title search (typo and accent tolerant)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- unaccent() is only STABLE, so wrap it to make it usable in index expressions
+CREATE OR REPLACE FUNCTION normalize_title(text) RETURNS text AS $$
+  SELECT lower(public.unaccent('public.unaccent'::regdictionary, $1))
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT;
+
+CREATE INDEX idx_movies_title_trgm ON movies USING GIN (normalize_title(title) gin_trgm_ops);
+CREATE INDEX idx_movies_original_title_trgm ON movies USING GIN (normalize_title(original_title) gin_trgm_ops);
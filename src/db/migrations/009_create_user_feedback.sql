@@ -0,0 +1,12 @@
+-- Per-session feedback on movies (latest feedback per movie wins)
+CREATE TABLE user_feedback (
+  id SERIAL PRIMARY KEY,
+  session_id TEXT NOT NULL,
+  movie_id INTEGER NOT NULL REFERENCES movies(id) ON DELETE CASCADE,
+  feedback VARCHAR(20) NOT NULL CHECK (feedback IN ('loved', 'not_interested', 'seen', 'skip')),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (session_id, movie_id)
+);
+
+CREATE INDEX idx_user_feedback_session_id ON user_feedback(session_id, updated_at DESC);
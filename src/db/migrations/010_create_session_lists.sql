@@ -0,0 +1,10 @@
+-- Per-session watchlist and watched history
+CREATE TABLE session_lists (
+  session_id TEXT NOT NULL,
+  list VARCHAR(20) NOT NULL CHECK (list IN ('watchlist', 'watched')),
+  movie_id INTEGER NOT NULL REFERENCES movies(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (session_id, list, movie_id)
+);
+
+CREATE INDEX idx_session_lists_movie_id ON session_lists(movie_id);
@@ -0,0 +1 @@
+DROP TABLE tmdb_cache;
@@ -0,0 +1,10 @@
+-- Shared cache for TMDB responses (trailers, localized synopses)
+CREATE TABLE tmdb_cache (
+  key VARCHAR(255) PRIMARY KEY,
+  movie_id INTEGER NOT NULL REFERENCES movies(id) ON DELETE CASCADE,
+  value JSONB NOT NULL,
+  fetched_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX idx_tmdb_cache_movie_id ON tmdb_cache(movie_id);
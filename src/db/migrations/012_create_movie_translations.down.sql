@@ -0,0 +1,3 @@
+DROP TABLE genre_translations;
+DROP TABLE movie_translations;
+ALTER TABLE movies DROP COLUMN tagline;
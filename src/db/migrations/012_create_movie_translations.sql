@@ -0,0 +1,23 @@
+-- English tagline, the fallback for localized taglines
+ALTER TABLE movies ADD COLUMN tagline TEXT;
+
+-- Localized movie fields; NULL fields fall back to the English value in movies
+CREATE TABLE movie_translations (
+  movie_id INTEGER NOT NULL REFERENCES movies(id) ON DELETE CASCADE,
+  locale VARCHAR(10) NOT NULL,
+  title VARCHAR(500),
+  synopsis TEXT,
+  tagline TEXT,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (movie_id, locale)
+);
+
+CREATE INDEX idx_movie_translations_locale ON movie_translations(locale);
+
+-- Localized genre names
+CREATE TABLE genre_translations (
+  genre_id INTEGER NOT NULL REFERENCES genres(id) ON DELETE CASCADE,
+  locale VARCHAR(10) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  PRIMARY KEY (genre_id, locale)
+);
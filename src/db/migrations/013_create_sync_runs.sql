@@ -0,0 +1,29 @@
+-- Report for each catalog sync run (npm run sync)
+CREATE TABLE sync_runs (
+  id SERIAL PRIMARY KEY,
+  status VARCHAR(20) NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'succeeded', 'failed')),
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP,
+  -- TMDB changes feed window covered by the run
+  changes_from TIMESTAMP NOT NULL,
+  changes_to TIMESTAMP NOT NULL,
+  -- Release date window searched for new movies
+  releases_from DATE NOT NULL,
+  releases_to DATE NOT NULL,
+  movies_checked INTEGER NOT NULL DEFAULT 0,
+  movies_updated INTEGER NOT NULL DEFAULT 0,
+  movies_added INTEGER NOT NULL DEFAULT 0,
+  movies_skipped INTEGER NOT NULL DEFAULT 0,
+  errors INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT
+);
+
+CREATE INDEX idx_sync_runs_started_at ON sync_runs(started_at);
+
+-- Where the next sync resumes; only advanced by successful runs
+CREATE TABLE sync_cursors (
+  name VARCHAR(50) PRIMARY KEY,
+  value TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
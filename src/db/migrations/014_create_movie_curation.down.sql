@@ -0,0 +1,2 @@
+DROP TABLE curation_log;
+DROP TABLE movie_curation;
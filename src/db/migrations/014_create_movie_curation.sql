@@ -0,0 +1,29 @@
+-- Editorial curation, kept apart from TMDB data so syncs and imports don't overwrite it
+CREATE TABLE movie_curation (
+  movie_id INTEGER PRIMARY KEY REFERENCES movies(id) ON DELETE CASCADE,
+  -- Hidden movies are never picked or dealt as candidates
+  hidden BOOLEAN NOT NULL DEFAULT false,
+  -- Pick weight multiplier; above 1 for pinned favourites
+  boost REAL NOT NULL DEFAULT 1 CHECK (boost > 0),
+  -- Replace the English values from TMDB when set
+  title_override VARCHAR(500),
+  synopsis_override TEXT,
+  tagline_override TEXT,
+  poster_path_override VARCHAR(255),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_movie_curation_hidden ON movie_curation(movie_id) WHERE hidden;
+
+-- Append-only history of curation changes
+CREATE TABLE curation_log (
+  id SERIAL PRIMARY KEY,
+  movie_id INTEGER NOT NULL REFERENCES movies(id) ON DELETE CASCADE,
+  action VARCHAR(20) NOT NULL
+    CHECK (action IN ('hide', 'unhide', 'pin', 'unpin', 'override')),
+  changes JSONB NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_curation_log_movie_id ON curation_log(movie_id);
@@ -0,0 +1,14 @@
+-- API keys issued to client apps (npm run api-keys)
+CREATE TABLE api_keys (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  -- First characters of the key, shown in listings to tell keys apart
+  key_prefix VARCHAR(20) NOT NULL,
+  -- SHA-256 of the full key; the key itself is never stored
+  key_hash CHAR(64) NOT NULL UNIQUE,
+  -- Requests per minute; NULL uses the server default
+  rate_limit INTEGER CHECK (rate_limit > 0),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP,
+  revoked_at TIMESTAMP
+);
@@ -0,0 +1,5 @@
+-- Partial runs are recorded as failed under the old constraint
+UPDATE sync_runs SET status = 'failed' WHERE status = 'partial';
+ALTER TABLE sync_runs DROP CONSTRAINT sync_runs_status_check;
+ALTER TABLE sync_runs ADD CONSTRAINT sync_runs_status_check
+  CHECK (status IN ('running', 'succeeded', 'failed'));
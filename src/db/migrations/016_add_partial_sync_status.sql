@@ -0,0 +1,4 @@
+-- Runs that finish with per-movie errors are recorded as partial and leave the cursor alone
+ALTER TABLE sync_runs DROP CONSTRAINT sync_runs_status_check;
+ALTER TABLE sync_runs ADD CONSTRAINT sync_runs_status_check
+  CHECK (status IN ('running', 'succeeded', 'partial', 'failed'));
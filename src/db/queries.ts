@@ -1,5 +1,25 @@
 import { pool } from './client.js';
-import type { MovieRow, Genre, PickFilters, Era } from '../types/index.js';
+import type {
+  MovieRow,
+  MovieSearchRow,
+  SimilarMovieRow,
+  Genre,
+  Country,
+  PickFilters,
+  Era,
+  FeedbackType,
+  FeedbackRow,
+  SessionListType,
+  SessionListRow,
+  SessionPickRow,
+  MovieTranslationRow,
+  TmdbCacheRow,
+  CurationAction,
+  CurationChanges,
+  CurationLogRow,
+  MovieCurationRow,
+  ApiKeyRow,
+} from '../types/index.js';
 import { config } from '../config.js';
 
 // Era to year range mapping
@@ -14,42 +34,140 @@ function eraToYearRange(era: Era): { start: number; end: number | null } {
   return ranges[era];
 }
 
-// Fetch all genres
-export async function getAllGenres(): Promise<Genre[]> {
-  const result = await pool.query<Genre>('SELECT id, name FROM genres ORDER BY name');
-  return result.rows;
+// Combine era, yearFrom/yearTo and releasedWithinYears into a single year range.
+// When several are given, the movie must satisfy all of them.
+function resolveYearRange(filters: PickFilters): { start: number | null; end: number | null } {
+  let start: number | null = null;
+  let end: number | null = null;
+
+  const narrow = (from: number | null, to: number | null) => {
+    if (from !== null) start = start === null ? from : Math.max(start, from);
+    if (to !== null) end = end === null ? to : Math.min(end, to);
+  };
+
+  if (filters.era) {
+    const range = eraToYearRange(filters.era);
+    narrow(range.start, range.end);
+  }
+  narrow(filters.yearFrom ?? null, filters.yearTo ?? null);
+  if (filters.releasedWithinYears) {
+    narrow(new Date().getFullYear() - filters.releasedWithinYears, null);
+  }
+
+  return { start, end };
 }
 
-// Fetch candidate movies based on filters
-export async function getCandidateMovies(
-  filters: PickFilters,
-  excludeMovieIds: number[]
-): Promise<MovieRow[]> {
-  const { minVoteCount, minVoteAverage, minRuntime } = config.selection;
+type QueryParam = string | number | number[] | string[];
+
+// Quality thresholds for a request: client overrides where given, config defaults otherwise.
+// Overrides can't go below the server-side safety limits.
+export function resolveQualityThresholds(filters: PickFilters): {
+  minVoteCount: number;
+  minVoteAverage: number;
+  minRuntime: number;
+} {
+  const { minVoteCount, minVoteAverage, minRuntime, limits } = config.selection;
+  return {
+    minVoteCount: filters.minVotes !== undefined
+      ? Math.max(filters.minVotes, limits.minVoteCount)
+      : minVoteCount,
+    minVoteAverage: filters.minRating ?? minVoteAverage,
+    minRuntime: filters.allowShorts ? limits.minRuntime : minRuntime,
+  };
+}
 
-  const conditions: string[] = [
+// Catalog quality floor every pickable movie must meet. Pushes its values onto params.
+function qualityConditions(filters: PickFilters, params: QueryParam[]): string[] {
+  const { minVoteCount, minVoteAverage, minRuntime } = resolveQualityThresholds(filters);
+  params.push(minRuntime, minVoteCount, minVoteAverage);
+  const last = params.length;
+  return [
     'm.adult = false',
     'm.runtime IS NOT NULL',
-    `m.runtime >= ${minRuntime}`,
-    `m.vote_count >= ${minVoteCount}`,
-    `m.vote_average >= ${minVoteAverage}`,
+    `m.runtime >= $${last - 2}`,
+    `m.vote_count >= $${last - 1}`,
+    `m.vote_average >= $${last}`,
   ];
+}
 
-  const params: (string | number | number[] | string[])[] = [];
-  let paramIndex = 1;
+// Movies hidden by an admin are never picked, listed as candidates or counted
+const NOT_HIDDEN_CONDITION =
+  'NOT EXISTS (SELECT 1 FROM movie_curation cur WHERE cur.movie_id = m.id AND cur.hidden)';
 
-  // Era filter
-  if (filters.era) {
-    const { start, end } = eraToYearRange(filters.era);
-    if (end !== null) {
-      conditions.push(`m.year >= $${paramIndex} AND m.year <= $${paramIndex + 1}`);
-      params.push(start, end);
-      paramIndex += 2;
-    } else {
-      conditions.push(`m.year >= $${paramIndex}`);
-      params.push(start);
-      paramIndex++;
-    }
+// Fetch all genres, with names in the given locale where translated
+export async function getAllGenres(locale = 'en'): Promise<Genre[]> {
+  const result = await pool.query<Genre>(
+    `SELECT g.id, COALESCE(gt.name, g.name) AS name
+     FROM genres g
+     LEFT JOIN genre_translations gt ON gt.genre_id = g.id AND gt.locale = $1
+     ORDER BY name`,
+    [locale]
+  );
+  return result.rows;
+}
+
+// Fetch countries that have at least one movie, with movie counts
+export async function getAllCountries(): Promise<Country[]> {
+  const result = await pool.query<{ code: string; name: string; movie_count: string }>(
+    `SELECT c.code, c.name, COUNT(mc.movie_id) AS movie_count
+     FROM countries c
+     INNER JOIN movie_countries mc ON c.code = mc.country_code
+     GROUP BY c.code, c.name
+     ORDER BY c.name`
+  );
+  return result.rows.map((row) => ({
+    code: row.code,
+    name: row.name,
+    movieCount: parseInt(row.movie_count, 10),
+  }));
+}
+
+// Count pickable movies per release decade
+export async function getDecadeCounts(): Promise<{ decade: number; movieCount: number }[]> {
+  const params: QueryParam[] = [];
+  const conditions = [...qualityConditions({}, params), NOT_HIDDEN_CONDITION];
+  const result = await pool.query<{ decade: number; movie_count: string }>(
+    `SELECT (m.year / 10) * 10 AS decade, COUNT(*) AS movie_count
+     FROM movies m
+     WHERE m.year IS NOT NULL AND ${conditions.join(' AND ')}
+     GROUP BY 1
+     ORDER BY 1`,
+    params
+  );
+  return result.rows.map((row) => ({
+    decade: Number(row.decade),
+    movieCount: parseInt(row.movie_count, 10),
+  }));
+}
+
+// Most candidates a query returns
+export const MAX_CANDIDATES = 1000;
+
+// WHERE conditions for pickable movies matching the filters; their values are
+// pushed onto params. Null when nothing can match (a watchlist without a session).
+function candidateConditions(
+  filters: PickFilters,
+  excludeMovieIds: number[],
+  sessionId: string | undefined,
+  params: QueryParam[]
+): string[] | null {
+  // The quality floor doesn't apply to movies the user put on their own watchlist
+  const conditions: string[] = filters.watchlistOnly
+    ? ['m.adult = false', 'm.runtime IS NOT NULL']
+    : qualityConditions(filters, params);
+  let paramIndex = params.length + 1;
+
+  // Release year filter (era presets and explicit ranges)
+  const { start, end } = resolveYearRange(filters);
+  if (start !== null) {
+    conditions.push(`m.year >= $${paramIndex}`);
+    params.push(start);
+    paramIndex++;
+  }
+  if (end !== null) {
+    conditions.push(`m.year <= $${paramIndex}`);
+    params.push(end);
+    paramIndex++;
   }
 
   // Min duration filter
@@ -73,6 +191,24 @@ export async function getCandidateMovies(
     paramIndex++;
   }
 
+  // Production country filter
+  if (filters.countries && filters.countries.length > 0) {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM movie_countries mc WHERE mc.movie_id = m.id AND mc.country_code = ANY($${paramIndex}))`
+    );
+    params.push(filters.countries.map(c => c.toUpperCase()));
+    paramIndex++;
+  }
+
+  // Excluded production countries
+  if (filters.excludeCountries && filters.excludeCountries.length > 0) {
+    conditions.push(
+      `NOT EXISTS (SELECT 1 FROM movie_countries mc WHERE mc.movie_id = m.id AND mc.country_code = ANY($${paramIndex}))`
+    );
+    params.push(filters.excludeCountries.map(c => c.toUpperCase()));
+    paramIndex++;
+  }
+
   // Exclude recently picked movies
   if (excludeMovieIds.length > 0) {
     conditions.push(`m.id != ALL($${paramIndex})`);
@@ -80,29 +216,148 @@ export async function getCandidateMovies(
     paramIndex++;
   }
 
-  // Genre filter (if specified)
-  let genreJoin = '';
+  if (sessionId) {
+    const sessionParam = `$${paramIndex}`;
+    params.push(sessionId);
+    paramIndex++;
+
+    // Exclude movies the session has already seen or is not interested in
+    conditions.push(
+      `NOT EXISTS (SELECT 1 FROM user_feedback f WHERE f.session_id = ${sessionParam} AND f.movie_id = m.id AND f.feedback IN ('seen', 'not_interested'))`
+    );
+
+    // Exclude watched movies, and either restrict to or exclude the watchlist
+    if (filters.watchlistOnly) {
+      conditions.push(
+        `EXISTS (SELECT 1 FROM session_lists sl WHERE sl.session_id = ${sessionParam} AND sl.movie_id = m.id AND sl.list = 'watchlist')`,
+        `NOT EXISTS (SELECT 1 FROM session_lists sl WHERE sl.session_id = ${sessionParam} AND sl.movie_id = m.id AND sl.list = 'watched')`
+      );
+    } else {
+      conditions.push(
+        `NOT EXISTS (SELECT 1 FROM session_lists sl WHERE sl.session_id = ${sessionParam} AND sl.movie_id = m.id)`
+      );
+    }
+  } else if (filters.watchlistOnly) {
+    // Without a session there is no watchlist to pick from
+    return null;
+  }
+
+  // Genre filter (if specified). Correlated subqueries against the
+  // (movie_id, genre_id) primary key avoid a join + DISTINCT over the catalog.
   if (filters.genreIds && filters.genreIds.length > 0) {
-    genreJoin = `
-      INNER JOIN movie_genres mg ON m.id = mg.movie_id
-    `;
-    conditions.push(`mg.genre_id = ANY($${paramIndex})`);
-    params.push(filters.genreIds);
+    const genreIds = [...new Set(filters.genreIds)];
+    if (filters.genreMatch === 'all') {
+      conditions.push(
+        `(SELECT COUNT(*) FROM movie_genres mg WHERE mg.movie_id = m.id AND mg.genre_id = ANY($${paramIndex})) = ${genreIds.length}`
+      );
+    } else {
+      conditions.push(
+        `EXISTS (SELECT 1 FROM movie_genres mg WHERE mg.movie_id = m.id AND mg.genre_id = ANY($${paramIndex}))`
+      );
+    }
+    params.push(genreIds);
     paramIndex++;
   }
 
+  // Excluded genres
+  if (filters.excludeGenreIds && filters.excludeGenreIds.length > 0) {
+    conditions.push(
+      `NOT EXISTS (SELECT 1 FROM movie_genres mg WHERE mg.movie_id = m.id AND mg.genre_id = ANY($${paramIndex}))`
+    );
+    params.push(filters.excludeGenreIds);
+    paramIndex++;
+  }
+
+  conditions.push(NOT_HIDDEN_CONDITION);
+
+  return conditions;
+}
+
+// Fetch candidate movies based on filters. Broad filters can match more movies
+// than the cap, so the cap keeps a sample drawn by the seed rather than the
+// lowest IDs: every matching movie can be picked, and a seed always gets the same sample.
+export async function getCandidateMovies(
+  filters: PickFilters,
+  excludeMovieIds: number[],
+  sessionId?: string,
+  seed = ''
+): Promise<MovieRow[]> {
+  const params: QueryParam[] = [];
+  const conditions = candidateConditions(filters, excludeMovieIds, sessionId, params);
+  if (!conditions) return [];
+
+  params.push(seed, MAX_CANDIDATES);
   const query = `
-    SELECT DISTINCT m.*
+    SELECT m.*
     FROM movies m
-    ${genreJoin}
     WHERE ${conditions.join(' AND ')}
-    LIMIT 1000
+    ORDER BY md5(m.id::text || $${params.length - 1}), m.id
+    LIMIT $${params.length}
   `;
 
   const result = await pool.query<MovieRow>(query, params);
   return result.rows;
 }
 
+// Candidates ranked by similarity (0-1) to a reference movie, most similar
+// first. The whole filtered catalog is scored before the limit applies, using
+// config.similar's weights; ties go to the movie with more votes.
+export async function getSimilarCandidateMovies(
+  movieId: number,
+  filters: PickFilters,
+  excludeMovieIds: number[],
+  sessionId: string | undefined,
+  limit: number
+): Promise<SimilarMovieRow[]> {
+  const params: QueryParam[] = [];
+  const conditions = candidateConditions(filters, [movieId, ...excludeMovieIds], sessionId, params);
+  if (!conditions) return [];
+
+  const param = (value: number) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+  const { weights, eraHalfLifeYears, ratingRange } = config.similar;
+
+  // Shared / combined, for genres and production countries
+  const overlap = (shared: string, count: string, reference: string) =>
+    `COALESCE(${shared}::float8 / NULLIF(${count} + cardinality(${reference}) - ${shared}, 0), 0)`;
+  // A term is 0 when either movie lacks its column, so one NULL can't make the score NULL
+  const score = [
+    `${param(weights.genres)}::float8 * ${overlap('o.shared_genres', 'o.genre_count', 'r.genre_ids')}`,
+    `${param(weights.era)}::float8 * COALESCE(power(0.5::float8, abs(m.year - r.year) / ${param(eraHalfLifeYears)}::float8), 0)`,
+    `${param(weights.language)}::float8 * COALESCE((m.original_language = r.original_language)::int, 0)`,
+    `${param(weights.countries)}::float8 * ${overlap('o.shared_countries', 'o.country_count', 'r.country_codes')}`,
+    `${param(weights.rating)}::float8 * COALESCE(greatest(0, 1 - abs(m.vote_average - r.vote_average)::float8 / ${param(ratingRange)}::float8), 0)`,
+  ].join('\n      + ');
+
+  const query = `
+    WITH r AS (
+      SELECT m.year, m.original_language, m.vote_average,
+        ARRAY(SELECT genre_id FROM movie_genres WHERE movie_id = m.id) AS genre_ids,
+        ARRAY(SELECT country_code FROM movie_countries WHERE movie_id = m.id) AS country_codes
+      FROM movies m
+      WHERE m.id = ${param(movieId)}
+    )
+    SELECT m.*, ${score} AS similarity
+    FROM movies m
+    CROSS JOIN r
+    CROSS JOIN LATERAL (
+      SELECT
+        (SELECT COUNT(*) FROM movie_genres mg WHERE mg.movie_id = m.id AND mg.genre_id = ANY(r.genre_ids)) AS shared_genres,
+        (SELECT COUNT(*) FROM movie_genres mg WHERE mg.movie_id = m.id) AS genre_count,
+        (SELECT COUNT(*) FROM movie_countries mc WHERE mc.movie_id = m.id AND mc.country_code = ANY(r.country_codes)) AS shared_countries,
+        (SELECT COUNT(*) FROM movie_countries mc WHERE mc.movie_id = m.id) AS country_count
+    ) o
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY similarity DESC NULLS LAST, m.vote_count DESC NULLS LAST, m.id
+    LIMIT ${param(limit)}
+  `;
+
+  const result = await pool.query<SimilarMovieRow>(query, params);
+  return result.rows;
+}
+
 // Get genres for a specific movie
 export async function getMovieGenres(movieId: number): Promise<string[]> {
   const result = await pool.query<{ name: string }>(
@@ -115,16 +370,17 @@ export async function getMovieGenres(movieId: number): Promise<string[]> {
   return result.rows.map((row) => row.name);
 }
 
-// Get genres for multiple movies at once
-export async function getMoviesGenres(movieIds: number[]): Promise<Map<number, string[]>> {
+// Get genres for multiple movies at once, named in the given locale where translated
+export async function getMoviesGenres(movieIds: number[], locale = 'en'): Promise<Map<number, string[]>> {
   if (movieIds.length === 0) return new Map();
 
   const result = await pool.query<{ movie_id: number; name: string }>(
-    `SELECT mg.movie_id, g.name 
+    `SELECT mg.movie_id, COALESCE(gt.name, g.name) AS name
      FROM genres g
      INNER JOIN movie_genres mg ON g.id = mg.genre_id
+     LEFT JOIN genre_translations gt ON gt.genre_id = g.id AND gt.locale = $2
      WHERE mg.movie_id = ANY($1)`,
-    [movieIds]
+    [movieIds, locale]
   );
 
   const genreMap = new Map<number, string[]>();
@@ -136,39 +392,105 @@ export async function getMoviesGenres(movieIds: number[]): Promise<Map<number, s
   return genreMap;
 }
 
-// Search for a movie by title (case-insensitive, supports partial matches)
-// Tries exact match first, then prefix match, then contains match.
-// Returns the best-quality match based on vote count.
-export async function searchMovieByTitle(title: string): Promise<MovieRow | null> {
-  // 1. Try exact match first
-  const exact = await pool.query<MovieRow>(
-    `SELECT * FROM movies
-     WHERE LOWER(title) = LOWER($1)
-     ORDER BY vote_count DESC
-     LIMIT 1`,
-    [title]
+// Get movies by internal IDs
+export async function getMoviesByIds(movieIds: number[]): Promise<MovieRow[]> {
+  if (movieIds.length === 0) return [];
+
+  const result = await pool.query<MovieRow>(
+    'SELECT * FROM movies WHERE id = ANY($1)',
+    [movieIds]
   );
-  if (exact.rows.length > 0) return exact.rows[0];
+  return result.rows;
+}
+
+// Get movies by TMDB IDs
+export async function getMoviesByTmdbIds(tmdbIds: number[]): Promise<MovieRow[]> {
+  if (tmdbIds.length === 0) return [];
 
-  // 2. Try prefix match (e.g. "Harry Potter" matches "Harry Potter and the Sorcerer's Stone")
-  const prefix = await pool.query<MovieRow>(
-    `SELECT * FROM movies
-     WHERE LOWER(title) LIKE LOWER($1) || '%'
-     ORDER BY vote_count DESC
-     LIMIT 1`,
-    [title]
+  const result = await pool.query<MovieRow>(
+    'SELECT * FROM movies WHERE tmdb_id = ANY($1)',
+    [tmdbIds]
   );
-  if (prefix.rows.length > 0) return prefix.rows[0];
+  return result.rows;
+}
 
-  // 3. Try contains match as last resort
-  const contains = await pool.query<MovieRow>(
-    `SELECT * FROM movies
-     WHERE LOWER(title) LIKE '%' || LOWER($1) || '%'
-     ORDER BY vote_count DESC
-     LIMIT 1`,
-    [title]
+// Get production country codes for multiple movies at once
+export async function getMoviesCountries(movieIds: number[]): Promise<Map<number, string[]>> {
+  if (movieIds.length === 0) return new Map();
+
+  const result = await pool.query<{ movie_id: number; country_code: string }>(
+    `SELECT movie_id, country_code
+     FROM movie_countries
+     WHERE movie_id = ANY($1)
+     ORDER BY country_code`,
+    [movieIds]
   );
-  return contains.rows[0] || null;
+
+  const countryMap = new Map<number, string[]>();
+  for (const row of result.rows) {
+    const countries = countryMap.get(row.movie_id) || [];
+    countries.push(row.country_code);
+    countryMap.set(row.movie_id, countries);
+  }
+  return countryMap;
+}
+
+// Get translations for multiple movies in one locale
+export async function getMoviesTranslations(
+  movieIds: number[],
+  locale: string
+): Promise<Map<number, MovieTranslationRow>> {
+  if (movieIds.length === 0) return new Map();
+
+  const result = await pool.query<MovieTranslationRow>(
+    `SELECT movie_id, locale, title, synopsis, tagline
+     FROM movie_translations
+     WHERE movie_id = ANY($1) AND locale = $2`,
+    [movieIds, locale]
+  );
+  return new Map(result.rows.map((row) => [row.movie_id, row]));
+}
+
+// Fuzzy title search over title and original_title using trigram similarity.
+// Exact and prefix matches get a bonus, and an optional year hint favours
+// movies released in or near that year. Ties are broken by vote count.
+export async function searchMovies(
+  title: string,
+  options: { year?: number; limit: number; offset: number }
+): Promise<{ rows: MovieSearchRow[]; total: number }> {
+  const result = await pool.query<MovieSearchRow>(
+    `WITH q AS (SELECT normalize_title($1) AS term)
+     SELECT m.*, r.score, COUNT(*) OVER () AS total_count
+     FROM movies m
+     CROSS JOIN q
+     CROSS JOIN LATERAL (
+       SELECT ROUND((
+         GREATEST(
+           similarity(normalize_title(m.title), q.term),
+           word_similarity(q.term, normalize_title(m.title)),
+           COALESCE(similarity(normalize_title(m.original_title), q.term), 0),
+           COALESCE(word_similarity(q.term, normalize_title(m.original_title)), 0)
+         )
+         + CASE
+             WHEN normalize_title(m.title) = q.term OR normalize_title(m.original_title) = q.term THEN 1
+             WHEN starts_with(normalize_title(m.title), q.term) THEN 0.25
+             ELSE 0
+           END
+         + CASE
+             WHEN $2::int IS NULL OR m.year IS NULL THEN 0
+             ELSE GREATEST(0, 0.2 - 0.1 * ABS(m.year - $2::int))
+           END
+       )::numeric, 3)::float AS score
+     ) r
+     WHERE q.term <% normalize_title(m.title)
+        OR q.term <% normalize_title(m.original_title)
+     ORDER BY r.score DESC, m.vote_count DESC
+     LIMIT $3 OFFSET $4`,
+    [title, options.year ?? null, options.limit, options.offset]
+  );
+
+  const total = result.rows.length > 0 ? parseInt(result.rows[0].total_count, 10) : 0;
+  return { rows: result.rows, total };
 }
 
 // Get recent picks for a session
@@ -205,6 +527,415 @@ export async function recordPick(
   );
 }
 
+// A session's picks, newest first. Pages with the ID of the last pick seen;
+// without a limit, returns the whole history.
+export async function getSessionPicks(
+  sessionId: string,
+  options: { before?: number; limit?: number } = {}
+): Promise<SessionPickRow[]> {
+  const params: QueryParam[] = [sessionId];
+  const conditions = ['up.session_id = $1'];
+
+  if (options.before) {
+    params.push(options.before);
+    conditions.push(`up.id < $${params.length}`);
+  }
+
+  let limit = '';
+  if (options.limit) {
+    params.push(options.limit);
+    limit = `LIMIT $${params.length}`;
+  }
+
+  const result = await pool.query<SessionPickRow>(
+    `SELECT m.*, up.id AS pick_id, up.filters, up.created_at AS picked_at
+     FROM user_picks up
+     INNER JOIN movies m ON m.id = up.movie_id
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY up.id DESC
+     ${limit}`,
+    params
+  );
+  return result.rows;
+}
+
+// Every table holding per-session data, by the name its count is reported
+// under. Tables added later that store session data must be listed here.
+export const SESSION_TABLES = {
+  picks: 'user_picks',
+  feedback: 'user_feedback',
+  lists: 'session_lists',
+} as const;
+
+export type SessionDataKind = keyof typeof SESSION_TABLES;
+
+// Erase all of a session's data in one statement. Returns rows deleted per table.
+export async function deleteSessionData(sessionId: string): Promise<Record<SessionDataKind, number>> {
+  const kinds = Object.keys(SESSION_TABLES) as SessionDataKind[];
+
+  const result = await pool.query<Record<SessionDataKind, string>>(
+    `WITH ${kinds
+      .map((kind) => `${kind} AS (DELETE FROM ${SESSION_TABLES[kind]} WHERE session_id = $1 RETURNING 1)`)
+      .join(',\n          ')}
+     SELECT ${kinds.map((kind) => `(SELECT COUNT(*) FROM ${kind}) AS ${kind}`).join(', ')}`,
+    [sessionId]
+  );
+
+  const row = result.rows[0];
+  return Object.fromEntries(kinds.map((kind) => [kind, parseInt(row[kind], 10)])) as Record<
+    SessionDataKind,
+    number
+  >;
+}
+
+interface SessionMergeStep {
+  // Settle rows both sessions have before the move
+  resolve: string[];
+  // Move the remaining rows from $1 to $2
+  move: string;
+}
+
+// How each kind of session data merges from session $1 into $2. Keyed by
+// SESSION_TABLES so a new session table can't be added without deciding.
+const SESSION_MERGE_STEPS: Record<SessionDataKind, SessionMergeStep> = {
+  // Picks never conflict; merged history keeps each pick's time
+  picks: {
+    resolve: [],
+    move: 'UPDATE user_picks SET session_id = $2 WHERE session_id = $1',
+  },
+  // Feedback on the same movie: the most recent one wins
+  feedback: {
+    resolve: [
+      `DELETE FROM user_feedback t
+       USING user_feedback f
+       WHERE t.session_id = $2 AND f.session_id = $1
+         AND f.movie_id = t.movie_id AND f.updated_at > t.updated_at`,
+      `DELETE FROM user_feedback f
+       USING user_feedback t
+       WHERE f.session_id = $1 AND t.session_id = $2 AND t.movie_id = f.movie_id`,
+    ],
+    move: 'UPDATE user_feedback SET session_id = $2 WHERE session_id = $1',
+  },
+  // The same movie on the same list keeps the earlier date, and a movie
+  // watched in either session comes off both watchlists
+  lists: {
+    resolve: [
+      `UPDATE session_lists t SET created_at = LEAST(t.created_at, f.created_at)
+       FROM session_lists f
+       WHERE t.session_id = $2 AND f.session_id = $1
+         AND f.list = t.list AND f.movie_id = t.movie_id`,
+      `DELETE FROM session_lists f
+       USING session_lists t
+       WHERE f.session_id = $1 AND t.session_id = $2
+         AND t.list = f.list AND t.movie_id = f.movie_id`,
+      `DELETE FROM session_lists w
+       USING session_lists d
+       WHERE w.session_id IN ($1, $2) AND d.session_id IN ($1, $2)
+         AND w.list = 'watchlist' AND d.list = 'watched' AND d.movie_id = w.movie_id`,
+    ],
+    move: 'UPDATE session_lists SET session_id = $2 WHERE session_id = $1',
+  },
+};
+
+// Move all of one session's data into another in a single transaction.
+// Returns the rows moved per kind; duplicates resolved away aren't counted.
+export async function mergeSessions(
+  fromSessionId: string,
+  toSessionId: string
+): Promise<Record<SessionDataKind, number>> {
+  const moved = {} as Record<SessionDataKind, number>;
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    for (const kind of Object.keys(SESSION_TABLES) as SessionDataKind[]) {
+      const step = SESSION_MERGE_STEPS[kind];
+      for (const statement of step.resolve) {
+        await client.query(statement, [fromSessionId, toSessionId]);
+      }
+      const result = await client.query(step.move, [fromSessionId, toSessionId]);
+      moved[kind] = result.rowCount ?? 0;
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return moved;
+}
+
+// Record feedback for a movie (replaces any earlier feedback for the same movie)
+export async function recordFeedback(
+  sessionId: string,
+  movieId: number,
+  feedback: FeedbackType
+): Promise<Date> {
+  const result = await pool.query<{ updated_at: Date }>(
+    `INSERT INTO user_feedback (session_id, movie_id, feedback, created_at, updated_at)
+     VALUES ($1, $2, $3, NOW(), NOW())
+     ON CONFLICT (session_id, movie_id) DO UPDATE SET
+       feedback = EXCLUDED.feedback,
+       updated_at = NOW()
+     RETURNING updated_at`,
+    [sessionId, movieId, feedback]
+  );
+  return result.rows[0].updated_at;
+}
+
+// Get a session's most recent feedback along with the movie attributes it applies to
+export async function getSessionFeedback(sessionId: string): Promise<FeedbackRow[]> {
+  const result = await pool.query<FeedbackRow>(
+    `SELECT f.movie_id, f.feedback, m.year, m.original_language, f.updated_at
+     FROM user_feedback f
+     INNER JOIN movies m ON m.id = f.movie_id
+     WHERE f.session_id = $1
+     ORDER BY f.updated_at DESC
+     LIMIT $2`,
+    [sessionId, config.selection.feedbackHistoryLimit]
+  );
+  return result.rows;
+}
+
+// Get a session's watchlist or watched list, most recently added first
+export async function getSessionList(
+  sessionId: string,
+  list: SessionListType
+): Promise<SessionListRow[]> {
+  const result = await pool.query<SessionListRow>(
+    `SELECT m.*, sl.created_at AS added_at
+     FROM session_lists sl
+     INNER JOIN movies m ON m.id = sl.movie_id
+     WHERE sl.session_id = $1 AND sl.list = $2
+     ORDER BY sl.created_at DESC`,
+    [sessionId, list]
+  );
+  return result.rows;
+}
+
+// Add a movie to a session list. Marking a movie watched also
+// takes it off the watchlist.
+export async function addToSessionList(
+  sessionId: string,
+  list: SessionListType,
+  movieId: number
+): Promise<void> {
+  await pool.query(
+    `WITH removed AS (
+       DELETE FROM session_lists
+       WHERE session_id = $1 AND movie_id = $3 AND list = 'watchlist' AND $2 = 'watched'
+     )
+     INSERT INTO session_lists (session_id, list, movie_id, created_at)
+     VALUES ($1, $2, $3, NOW())
+     ON CONFLICT DO NOTHING`,
+    [sessionId, list, movieId]
+  );
+}
+
+// Remove a movie from a session list. Returns false if it wasn't on the list.
+export async function removeFromSessionList(
+  sessionId: string,
+  list: SessionListType,
+  movieId: number
+): Promise<boolean> {
+  const result = await pool.query(
+    'DELETE FROM session_lists WHERE session_id = $1 AND list = $2 AND movie_id = $3',
+    [sessionId, list, movieId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+// Get a cached TMDB response
+export async function getTmdbCacheEntry(key: string): Promise<TmdbCacheRow | null> {
+  const result = await pool.query<TmdbCacheRow>(
+    'SELECT key, movie_id, value, fetched_at, expires_at FROM tmdb_cache WHERE key = $1',
+    [key]
+  );
+  return result.rows[0] ?? null;
+}
+
+// Store a TMDB response, replacing any existing entry for the key
+export async function setTmdbCacheEntry(
+  key: string,
+  movieId: number,
+  value: unknown,
+  expiresAt: Date
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO tmdb_cache (key, movie_id, value, fetched_at, expires_at)
+     VALUES ($1, $2, $3, NOW(), $4)
+     ON CONFLICT (key) DO UPDATE SET
+       value = EXCLUDED.value,
+       fetched_at = EXCLUDED.fetched_at,
+       expires_at = EXCLUDED.expires_at`,
+    [key, movieId, JSON.stringify(value), expiresAt]
+  );
+}
+
+// Delete all cached TMDB responses for a movie. Returns the number removed.
+export async function deleteTmdbCacheEntries(movieId: number): Promise<number> {
+  const result = await pool.query('DELETE FROM tmdb_cache WHERE movie_id = $1', [movieId]);
+  return result.rowCount ?? 0;
+}
+
+// Curation fields to movie_curation columns
+const CURATION_COLUMNS: Record<keyof CurationChanges, string> = {
+  hidden: 'hidden',
+  boost: 'boost',
+  title: 'title_override',
+  synopsis: 'synopsis_override',
+  tagline: 'tagline_override',
+  posterPath: 'poster_path_override',
+};
+
+// Apply a curation action and log it in one statement. Fields not in
+// changes keep their current values. Throws a foreign key violation
+// (23503) when the movie does not exist.
+export async function curateMovie(
+  movieId: number,
+  action: CurationAction,
+  changes: CurationChanges,
+  reason: string | null
+): Promise<MovieCurationRow> {
+  const fields = Object.keys(changes) as (keyof CurationChanges)[];
+  const columns = fields.map((field) => CURATION_COLUMNS[field]);
+
+  const result = await pool.query<MovieCurationRow>(
+    `WITH logged AS (
+       INSERT INTO curation_log (movie_id, action, changes, reason)
+       VALUES ($1, $2, $3, $4)
+     )
+     INSERT INTO movie_curation (movie_id, ${columns.join(', ')})
+     VALUES ($1, ${columns.map((_, i) => `$${i + 5}`).join(', ')})
+     ON CONFLICT (movie_id) DO UPDATE SET
+       ${columns.map((column) => `${column} = EXCLUDED.${column}`).join(', ')},
+       updated_at = NOW()
+     RETURNING *`,
+    [movieId, action, JSON.stringify(changes), reason, ...fields.map((field) => changes[field])]
+  );
+  return result.rows[0];
+}
+
+// Get a movie's curation, or null if it was never curated
+export async function getMovieCuration(movieId: number): Promise<MovieCurationRow | null> {
+  const result = await pool.query<MovieCurationRow>(
+    'SELECT * FROM movie_curation WHERE movie_id = $1',
+    [movieId]
+  );
+  return result.rows[0] ?? null;
+}
+
+// Get curation for multiple movies; uncurated movies are left out
+export async function getMoviesCuration(movieIds: number[]): Promise<Map<number, MovieCurationRow>> {
+  if (movieIds.length === 0) return new Map();
+
+  const result = await pool.query<MovieCurationRow>(
+    'SELECT * FROM movie_curation WHERE movie_id = ANY($1)',
+    [movieIds]
+  );
+  return new Map(result.rows.map((row) => [row.movie_id, row]));
+}
+
+// Curation history, newest first. Pages with the ID of the last entry seen.
+export async function getCurationLog(options: {
+  movieId?: number;
+  before?: number;
+  limit: number;
+}): Promise<CurationLogRow[]> {
+  const conditions: string[] = [];
+  const params: QueryParam[] = [];
+
+  if (options.movieId) {
+    params.push(options.movieId);
+    conditions.push(`movie_id = $${params.length}`);
+  }
+  if (options.before) {
+    params.push(options.before);
+    conditions.push(`id < $${params.length}`);
+  }
+  params.push(options.limit);
+
+  const result = await pool.query<CurationLogRow>(
+    `SELECT id, movie_id, action, changes, reason, created_at
+     FROM curation_log
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY id DESC
+     LIMIT $${params.length}`,
+    params
+  );
+  return result.rows;
+}
+
+// Store a new API key by its hash
+export async function createApiKey(
+  name: string,
+  keyPrefix: string,
+  keyHash: string,
+  rateLimit: number | null
+): Promise<ApiKeyRow> {
+  const result = await pool.query<ApiKeyRow>(
+    `INSERT INTO api_keys (name, key_prefix, key_hash, rate_limit)
+     VALUES ($1, $2, $3, $4)
+     RETURNING *`,
+    [name, keyPrefix, keyHash, rateLimit]
+  );
+  return result.rows[0];
+}
+
+// Look up an active API key by hash and record that it was used
+export async function touchApiKey(keyHash: string): Promise<ApiKeyRow | null> {
+  const result = await pool.query<ApiKeyRow>(
+    `UPDATE api_keys SET last_used_at = NOW()
+     WHERE key_hash = $1 AND revoked_at IS NULL
+     RETURNING *`,
+    [keyHash]
+  );
+  return result.rows[0] ?? null;
+}
+
+export async function listApiKeys(): Promise<ApiKeyRow[]> {
+  const result = await pool.query<ApiKeyRow>('SELECT * FROM api_keys ORDER BY id');
+  return result.rows;
+}
+
+// Revoke an API key. Returns false if it doesn't exist or was already revoked.
+export async function revokeApiKey(id: number): Promise<boolean> {
+  const result = await pool.query(
+    'UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL',
+    [id]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+// Names of the migrations that have run; empty before the first migration
+export async function getAppliedMigrations(): Promise<string[]> {
+  try {
+    const result = await pool.query<{ name: string }>('SELECT name FROM _migrations ORDER BY name');
+    return result.rows.map((row) => row.name);
+  } catch (error) {
+    // undefined_table: the migration runner has never run
+    if ((error as { code?: string }).code === '42P01') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+// Movies a pick without filters could return: default quality floor, not hidden
+export async function countEligibleMovies(): Promise<number> {
+  const params: QueryParam[] = [];
+  const conditions = [...qualityConditions({}, params), NOT_HIDDEN_CONDITION];
+  const result = await pool.query<{ count: string }>(
+    `SELECT COUNT(*) AS count
+     FROM movies m
+     WHERE ${conditions.join(' AND ')}`,
+    params
+  );
+  return parseInt(result.rows[0].count, 10);
+}
+
 // Health check - verify database connection
 export async function healthCheck(): Promise<boolean> {
   try {
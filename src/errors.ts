@@ -0,0 +1,47 @@
+import type { FastifyError, FastifyInstance } from 'fastify';
+import type { ErrorCode, ErrorResponse } from './types/index.js';
+
+// Build the uniform error envelope
+export function apiError(code: ErrorCode, message: string, field?: string): ErrorResponse {
+  return { error: field ? { code, message, field } : { code, message } };
+}
+
+// Turn an Ajv instance path ("/filters/era") or missing property into a dotted field name
+function validationField(error: FastifyError): string | undefined {
+  const [first] = error.validation || [];
+  if (!first) return undefined;
+
+  const path = first.instancePath.replace(/^\//, '').split('/').filter(Boolean);
+  const missing = (first.params as { missingProperty?: string }).missingProperty;
+  if (missing) path.push(missing);
+
+  return path.length > 0 ? path.join('.') : undefined;
+}
+
+// Schema validation failures, unknown routes and unhandled errors all
+// answer with the same envelope as the route handlers
+export function registerErrorHandlers(fastify: FastifyInstance): void {
+  fastify.setErrorHandler((error: FastifyError, request, reply) => {
+    if (error.validation) {
+      const field = validationField(error);
+      const [first] = error.validation;
+      const missing = first.keyword === 'required';
+      const message = field
+        ? missing ? `${field} is required` : `${field} ${first.message}`
+        : error.message;
+      return reply.status(400).send(apiError('VALIDATION_ERROR', message, field));
+    }
+
+    const statusCode = error.statusCode ?? 500;
+    if (statusCode < 500) {
+      return reply.status(statusCode).send(apiError('BAD_REQUEST', error.message));
+    }
+
+    request.log.error(error, 'Unhandled error');
+    return reply.status(500).send(apiError('INTERNAL_ERROR', 'Internal server error.'));
+  });
+
+  fastify.setNotFoundHandler((request, reply) => {
+    reply.status(404).send(apiError('NOT_FOUND', `Route ${request.method} ${request.url} not found`));
+  });
+}
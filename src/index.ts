@@ -1,8 +1,9 @@
 import { config, validateConfig } from './config.js';
 import { buildServer } from './server.js';
+import { SCORING_STRATEGIES } from './services/picker.js';
 
 async function main() {
-  validateConfig();
+  validateConfig(Object.keys(SCORING_STRATEGIES));
 
   const server = buildServer();
 
@@ -0,0 +1,303 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { FastifyInstance } from 'fastify';
+import { invalidateMovieCache } from '../services/cache.js';
+import { applyCuration, getCuration, toCurationLogEntry } from '../services/curation.js';
+import { getCurationLog, getTmdbId } from '../db/queries.js';
+import { apiError } from '../errors.js';
+import { errorResponses, movieIdParamsSchema, positiveIntegerSchema } from '../schemas/index.js';
+import type {
+  CurationAction,
+  CurationChanges,
+  CurationLogResponse,
+  ErrorResponse,
+  MovieCuration,
+  MovieOverrides,
+} from '../types/index.js';
+import { config } from '../config.js';
+
+interface MovieParams {
+  id: number;
+}
+
+interface CacheInvalidationResponse {
+  deleted: number;
+}
+
+interface CurationBody {
+  reason?: string;
+}
+
+interface PinBody extends CurationBody {
+  boost?: number;
+}
+
+type OverridesBody = CurationBody & Partial<MovieOverrides>;
+
+interface CurationLogQuery {
+  movieId?: number;
+  before?: number;
+  limit?: number;
+}
+
+const OVERRIDE_FIELDS: (keyof MovieOverrides)[] = ['title', 'synopsis', 'tagline', 'posterPath'];
+
+const invalidateCacheSchema = {
+  params: movieIdParamsSchema,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        deleted: { type: 'integer' },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+const reasonSchema = { type: 'string', minLength: 1, maxLength: 1000 } as const;
+
+// Strings set an override, null clears it
+const overrideSchema = { type: ['string', 'null'], minLength: 1, maxLength: 5000 } as const;
+
+const movieCurationSchema = {
+  type: 'object',
+  properties: {
+    movieId: { type: 'integer' },
+    hidden: { type: 'boolean' },
+    boost: { type: 'number' },
+    overrides: {
+      type: 'object',
+      properties: {
+        title: { type: ['string', 'null'] },
+        synopsis: { type: ['string', 'null'] },
+        tagline: { type: ['string', 'null'] },
+        posterPath: { type: ['string', 'null'] },
+      },
+    },
+    updatedAt: { type: ['string', 'null'] },
+  },
+} as const;
+
+const curationResponses = {
+  200: movieCurationSchema,
+  ...errorResponses,
+} as const;
+
+const curationActionSchema = {
+  params: movieIdParamsSchema,
+  body: {
+    type: 'object',
+    properties: {
+      reason: reasonSchema,
+    },
+  },
+  response: curationResponses,
+} as const;
+
+const pinSchema = {
+  params: movieIdParamsSchema,
+  body: {
+    type: 'object',
+    properties: {
+      boost: { type: 'number', exclusiveMinimum: 1, maximum: config.curation.maxPinBoost },
+      reason: reasonSchema,
+    },
+  },
+  response: curationResponses,
+} as const;
+
+const overridesSchema = {
+  params: movieIdParamsSchema,
+  body: {
+    type: 'object',
+    properties: {
+      title: { ...overrideSchema, maxLength: 500 },
+      synopsis: overrideSchema,
+      tagline: overrideSchema,
+      posterPath: { type: ['string', 'null'], pattern: '^/[^/]+$', maxLength: 255 },
+      reason: reasonSchema,
+    },
+  },
+  response: curationResponses,
+} as const;
+
+const getCurationSchema = {
+  params: movieIdParamsSchema,
+  response: curationResponses,
+} as const;
+
+const curationLogSchema = {
+  querystring: {
+    type: 'object',
+    properties: {
+      movieId: positiveIntegerSchema,
+      before: positiveIntegerSchema,
+      limit: { type: 'integer', minimum: 1, maximum: config.curation.logMaxLimit },
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        entries: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              movieId: { type: 'integer' },
+              action: { type: 'string' },
+              changes: { type: 'object', additionalProperties: true },
+              reason: { type: ['string', 'null'] },
+              createdAt: { type: 'string' },
+            },
+          },
+        },
+        nextBefore: { type: ['integer', 'null'] },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+// Constant-time comparison of the presented bearer token against ADMIN_TOKEN
+function isAdminToken(header: string | undefined): boolean {
+  if (!config.adminToken || !header?.startsWith('Bearer ')) {
+    return false;
+  }
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(header.slice('Bearer '.length)), digest(config.adminToken));
+}
+
+export async function adminRoutes(fastify: FastifyInstance): Promise<void> {
+  // Every route in this plugin requires the admin token
+  fastify.addHook('onRequest', async (request, reply) => {
+    if (!isAdminToken(request.headers.authorization)) {
+      return reply.status(401).send(apiError('UNAUTHORIZED', 'Admin token required.'));
+    }
+  });
+
+  fastify.delete<{ Params: MovieParams; Reply: CacheInvalidationResponse | ErrorResponse }>(
+    '/admin/movies/:id/cache',
+    { schema: invalidateCacheSchema },
+    async (request, reply) => {
+      try {
+        const deleted = await invalidateMovieCache(request.params.id);
+        return { deleted };
+      } catch (error) {
+        request.log.error(error, 'Cache invalidation failed');
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to invalidate cache.'));
+      }
+    }
+  );
+
+  // Curation actions take an optional JSON body
+  fastify.addHook('preValidation', async (request) => {
+    request.body ??= {};
+  });
+
+  // Hide, unhide, pin and unpin share one handler
+  const curationRoutes: {
+    path: string;
+    action: CurationAction;
+    changes: (body: PinBody) => CurationChanges;
+    schema: typeof curationActionSchema | typeof pinSchema;
+  }[] = [
+    { path: 'hide', action: 'hide', changes: () => ({ hidden: true }), schema: curationActionSchema },
+    { path: 'unhide', action: 'unhide', changes: () => ({ hidden: false }), schema: curationActionSchema },
+    {
+      path: 'pin',
+      action: 'pin',
+      changes: (body) => ({ boost: body.boost ?? config.curation.defaultPinBoost }),
+      schema: pinSchema,
+    },
+    { path: 'unpin', action: 'unpin', changes: () => ({ boost: 1 }), schema: curationActionSchema },
+  ];
+
+  for (const route of curationRoutes) {
+    fastify.post<{ Params: MovieParams; Body: PinBody; Reply: MovieCuration | ErrorResponse }>(
+      `/admin/movies/:id/${route.path}`,
+      { schema: route.schema },
+      async (request, reply) => {
+        try {
+          return await applyCuration(
+            request.params.id,
+            route.action,
+            route.changes(request.body),
+            request.body.reason
+          );
+        } catch (error) {
+          // Foreign key violation: the movie does not exist
+          if ((error as { code?: string }).code === '23503') {
+            return reply.status(404).send(apiError('NOT_FOUND', 'Movie not found', 'id'));
+          }
+          request.log.error(error, `Curation action ${route.action} failed`);
+          return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to curate movie.'));
+        }
+      }
+    );
+  }
+
+  fastify.patch<{ Params: MovieParams; Body: OverridesBody; Reply: MovieCuration | ErrorResponse }>(
+    '/admin/movies/:id',
+    { schema: overridesSchema },
+    async (request, reply) => {
+      const changes: CurationChanges = {};
+      for (const field of OVERRIDE_FIELDS) {
+        if (request.body[field] !== undefined) {
+          changes[field] = request.body[field];
+        }
+      }
+
+      if (Object.keys(changes).length === 0) {
+        return reply
+          .status(400)
+          .send(apiError('VALIDATION_ERROR', `Set at least one of ${OVERRIDE_FIELDS.join(', ')}`));
+      }
+
+      try {
+        return await applyCuration(request.params.id, 'override', changes, request.body.reason);
+      } catch (error) {
+        if ((error as { code?: string }).code === '23503') {
+          return reply.status(404).send(apiError('NOT_FOUND', 'Movie not found', 'id'));
+        }
+        request.log.error(error, 'Overriding movie fields failed');
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to curate movie.'));
+      }
+    }
+  );
+
+  fastify.get<{ Params: MovieParams; Reply: MovieCuration | ErrorResponse }>(
+    '/admin/movies/:id/curation',
+    { schema: getCurationSchema },
+    async (request, reply) => {
+      try {
+        if (!(await getTmdbId(request.params.id))) {
+          return reply.status(404).send(apiError('NOT_FOUND', 'Movie not found', 'id'));
+        }
+        return await getCuration(request.params.id);
+      } catch (error) {
+        request.log.error(error, 'Fetching curation failed');
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to fetch curation.'));
+      }
+    }
+  );
+
+  fastify.get<{ Querystring: CurationLogQuery; Reply: CurationLogResponse | ErrorResponse }>(
+    '/admin/curation',
+    { schema: curationLogSchema },
+    async (request, reply) => {
+      const limit = request.query.limit ?? config.curation.logDefaultLimit;
+      try {
+        const rows = await getCurationLog({ ...request.query, limit });
+        return {
+          entries: rows.map(toCurationLogEntry),
+          nextBefore: rows.length === limit ? rows[rows.length - 1].id : null,
+        };
+      } catch (error) {
+        request.log.error(error, 'Fetching curation log failed');
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to fetch curation log.'));
+      }
+    }
+  );
+}
@@ -1,72 +1,111 @@
 import type { FastifyInstance } from 'fastify';
-import { getCandidateMovies, getMoviesGenres, getRecentPickMovieIds } from '../db/queries.js';
-import type { PickFilters, Movie, MovieRow } from '../types/index.js';
-import { config } from '../config.js';
+import { getCandidateMovies, getRecentPickMovieIds } from '../db/queries.js';
+import { hydrateMovies } from '../services/movies.js';
+import { createRandom, generateSeed, normalizeSeed, shuffle } from '../services/random.js';
+import { validateFilterRanges } from '../services/filters.js';
+import { resolveRequestLocale } from '../services/i18n.js';
+import { apiError } from '../errors.js';
+import {
+  errorResponses,
+  langQuerySchema,
+  movieSchema,
+  pickFiltersSchema,
+  positiveIntegerSchema,
+  seedSchema,
+  sessionIdSchema,
+} from '../schemas/index.js';
+import type { ErrorResponse, PickFilters, Movie } from '../types/index.js';
 
 interface CandidatesRequest {
   filters: PickFilters;
-  limit?: number;
+  limit: number;
   sessionId?: string;
   excludeMovieIds?: number[];
+  // Reproduces an earlier deck; a random seed is generated when omitted
+  seed?: string | number;
 }
 
 interface CandidatesResponse {
   movies: Movie[];
   totalResults: number;
+  seed: string;
 }
 
-function toMovie(row: MovieRow, genres: string[]): Movie {
-  return {
-    id: row.id,
-    tmdbId: row.tmdb_id,
-    title: row.title,
-    year: row.year,
-    runtime: row.runtime || 0,
-    synopsis: row.synopsis || '',
-    posterUrl: row.poster_path
-      ? `${config.tmdbImageBaseUrl}${row.poster_path}`
-      : '',
-    voteAverage: Number(row.vote_average),
-    genres,
-  };
-}
+const candidatesSchema = {
+  querystring: langQuerySchema,
+  body: {
+    type: 'object',
+    properties: {
+      filters: pickFiltersSchema,
+      limit: { type: 'integer', minimum: 1, maximum: 100, default: 30 },
+      sessionId: sessionIdSchema,
+      excludeMovieIds: { type: 'array', maxItems: 1000, items: positiveIntegerSchema },
+      seed: seedSchema,
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        movies: { type: 'array', items: movieSchema },
+        totalResults: { type: 'integer' },
+        seed: { type: 'string' },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
 
 export async function candidatesRoutes(fastify: FastifyInstance): Promise<void> {
-  fastify.post<{ Body: CandidatesRequest; Reply: CandidatesResponse | { error: string } }>(
+  fastify.post<{ Body: CandidatesRequest; Querystring: { lang?: string }; Reply: CandidatesResponse | ErrorResponse }>(
     '/candidates',
+    { schema: candidatesSchema },
     async (request, reply) => {
-      const { filters, limit = 30, sessionId, excludeMovieIds } = request.body;
+      const { filters, limit, sessionId, excludeMovieIds = [] } = request.body;
+      const seed = request.body.seed === undefined ? generateSeed() : normalizeSeed(request.body.seed);
+
+      if (seed === null) {
+        return reply.status(400).send(
+          apiError('VALIDATION_ERROR', 'seed must be a safe integer or a string of up to 64 characters.', 'seed')
+        );
+      }
+
+      const filtersError = validateFilterRanges(filters);
+      if (filtersError) {
+        return reply.status(400).send(filtersError);
+      }
+
+      if (filters.watchlistOnly && !sessionId) {
+        return reply.status(400).send(
+          apiError('VALIDATION_ERROR', 'sessionId is required when watchlistOnly is set.', 'sessionId')
+        );
+      }
+
+      const locale = resolveRequestLocale(request, reply);
 
       try {
         // Exclude recently picked movies if a session ID is provided
         const recentIds = sessionId ? await getRecentPickMovieIds(sessionId) : [];
-        
-        // Merge with client-provided exclusions (fulfilled/watched movies from Archive)
-        const clientExcludeIds = Array.isArray(excludeMovieIds) ? excludeMovieIds : [];
-        const excludeIds = [...new Set([...recentIds, ...clientExcludeIds])];
-        
-        const candidates = await getCandidateMovies(filters || {}, excludeIds);
+
+        // Merge with client-provided exclusions (fulfilled/watched movies from Archive).
+        // The session's server-side watchlist and watched list are excluded by the query.
+        const excludeIds = [...new Set([...recentIds, ...excludeMovieIds])];
+
+        const candidates = await getCandidateMovies(filters, excludeIds, sessionId, seed);
 
         if (candidates.length === 0) {
-          return { movies: [], totalResults: 0 };
+          return { movies: [], totalResults: 0, seed };
         }
 
-        const shuffled = candidates.sort(() => Math.random() - 0.5);
+        const shuffled = shuffle(candidates, createRandom(seed));
         const selected = shuffled.slice(0, Math.min(limit, shuffled.length));
 
-        const movieIds = selected.map((m) => m.id);
-        const genresMap = await getMoviesGenres(movieIds);
-
-        const movies = selected.map((movie) => 
-          toMovie(movie, genresMap.get(movie.id) || [])
-        );
+        const movies = await hydrateMovies(selected, locale);
 
-        return { movies, totalResults: candidates.length };
+        return { movies, totalResults: candidates.length, seed };
       } catch (error) {
         request.log.error(error, 'Candidates fetch failed');
-        return reply.status(500).send({
-          error: 'Failed to fetch candidates.',
-        });
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to fetch candidates.'));
       }
     }
   );
@@ -0,0 +1,23 @@
+import type { FastifyInstance } from 'fastify';
+import { getCountries } from '../services/movies.js';
+import { countrySchema, errorResponses } from '../schemas/index.js';
+import type { CountriesResponse } from '../types/index.js';
+
+const countriesSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        countries: { type: 'array', items: countrySchema },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+export async function countryRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.get<{ Reply: CountriesResponse }>('/countries', { schema: countriesSchema }, async () => {
+    const countries = await getCountries();
+    return { countries };
+  });
+}
@@ -0,0 +1,35 @@
+import type { FastifyInstance } from 'fastify';
+import { getEras } from '../services/movies.js';
+import { errorResponses } from '../schemas/index.js';
+import type { ErasResponse } from '../types/index.js';
+
+const erasSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        eras: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              decade: { type: 'integer' },
+              label: { type: 'string' },
+              yearFrom: { type: 'integer' },
+              yearTo: { type: 'integer' },
+              movieCount: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+export async function eraRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.get<{ Reply: ErasResponse }>('/eras', { schema: erasSchema }, async () => {
+    const eras = await getEras();
+    return { eras };
+  });
+}
@@ -0,0 +1,61 @@
+import type { FastifyInstance } from 'fastify';
+import { recordFeedback } from '../db/queries.js';
+import { apiError } from '../errors.js';
+import { errorResponses, positiveIntegerSchema, sessionIdSchema } from '../schemas/index.js';
+import type {
+  ErrorResponse,
+  FeedbackRequest,
+  FeedbackResponse,
+  FeedbackType,
+} from '../types/index.js';
+
+const FEEDBACK_TYPES: FeedbackType[] = ['loved', 'not_interested', 'seen', 'skip'];
+
+const feedbackSchema = {
+  body: {
+    type: 'object',
+    required: ['sessionId', 'movieId', 'feedback'],
+    properties: {
+      sessionId: sessionIdSchema,
+      movieId: positiveIntegerSchema,
+      feedback: { type: 'string', enum: FEEDBACK_TYPES },
+    },
+  },
+  response: {
+    201: {
+      type: 'object',
+      properties: {
+        movieId: { type: 'integer' },
+        feedback: { type: 'string' },
+        updatedAt: { type: 'string' },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+export async function feedbackRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.post<{ Body: FeedbackRequest; Reply: FeedbackResponse | ErrorResponse }>(
+    '/feedback',
+    { schema: feedbackSchema },
+    async (request, reply) => {
+      const { sessionId, movieId, feedback } = request.body;
+
+      try {
+        const updatedAt = await recordFeedback(sessionId, movieId, feedback);
+        return reply.status(201).send({
+          movieId,
+          feedback,
+          updatedAt: updatedAt.toISOString(),
+        });
+      } catch (error) {
+        // Foreign key violation: the movie does not exist
+        if ((error as { code?: string }).code === '23503') {
+          return reply.status(404).send(apiError('NOT_FOUND', 'Movie not found', 'movieId'));
+        }
+        request.log.error(error, 'Feedback record failed');
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to record feedback.'));
+      }
+    }
+  );
+}
@@ -1,10 +1,29 @@
 import type { FastifyInstance } from 'fastify';
 import { getGenres } from '../services/movies.js';
+import { resolveRequestLocale } from '../services/i18n.js';
+import { errorResponses, genreSchema, langQuerySchema } from '../schemas/index.js';
 import type { GenresResponse } from '../types/index.js';
 
+const genresSchema = {
+  querystring: langQuerySchema,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        genres: { type: 'array', items: genreSchema },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
 export async function genreRoutes(fastify: FastifyInstance): Promise<void> {
-  fastify.get<{ Reply: GenresResponse }>('/genres', async () => {
-    const genres = await getGenres();
-    return { genres };
-  });
+  fastify.get<{ Querystring: { lang?: string }; Reply: GenresResponse }>(
+    '/genres',
+    { schema: genresSchema },
+    async (request, reply) => {
+      const genres = await getGenres(resolveRequestLocale(request, reply));
+      return { genres };
+    }
+  );
 }
@@ -1,9 +1,149 @@
 import type { FastifyInstance } from 'fastify';
-import { healthCheck } from '../db/queries.js';
-import type { HealthResponse } from '../types/index.js';
+import { pool } from '../db/client.js';
+import { countEligibleMovies, getAppliedMigrations, healthCheck } from '../db/queries.js';
+import { listMigrationFiles } from '../db/migration-files.js';
+import { getTmdbCircuitState, isTmdbConfigured } from '../services/tmdb.js';
+import { config } from '../config.js';
+import type { HealthCheck, HealthResponse, ReadinessResponse } from '../types/index.js';
+
+interface ReadinessQuery {
+  detail?: boolean;
+}
+
+const healthResponseSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string' },
+    timestamp: { type: 'string' },
+  },
+} as const;
+
+const healthSchema = {
+  response: {
+    200: healthResponseSchema,
+    503: healthResponseSchema,
+  },
+} as const;
+
+const checkSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string' },
+    message: { type: 'string' },
+  },
+} as const;
+
+const readinessResponseSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string' },
+    timestamp: { type: 'string' },
+    checks: {
+      type: 'object',
+      properties: {
+        database: checkSchema,
+        migrations: checkSchema,
+        catalog: checkSchema,
+      },
+    },
+    details: {
+      type: 'object',
+      properties: {
+        migrations: {
+          type: 'object',
+          properties: {
+            latest: { type: ['string', 'null'] },
+            pending: { type: 'array', items: { type: 'string' } },
+          },
+        },
+        catalog: {
+          type: 'object',
+          properties: {
+            eligibleMovies: { type: ['integer', 'null'] },
+            minEligibleMovies: { type: 'integer' },
+          },
+        },
+        pool: {
+          type: 'object',
+          properties: {
+            total: { type: 'integer' },
+            idle: { type: 'integer' },
+            waiting: { type: 'integer' },
+            max: { type: 'integer' },
+            saturation: { type: 'number' },
+          },
+        },
+        tmdb: {
+          type: 'object',
+          properties: {
+            configured: { type: 'boolean' },
+            circuit: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+const readinessSchema = {
+  querystring: {
+    type: 'object',
+    properties: {
+      detail: { type: 'boolean' },
+    },
+  },
+  response: {
+    200: readinessResponseSchema,
+    503: readinessResponseSchema,
+  },
+} as const;
+
+const ok: HealthCheck = { status: 'ok' };
+const failed = (message: string): HealthCheck => ({ status: 'error', message });
+
+// Every migration file in src/db/migrations, up to the latest, must have run
+async function checkMigrations(): Promise<{ check: HealthCheck; latest: string | null; pending: string[] }> {
+  const files = listMigrationFiles();
+  const applied = new Set(await getAppliedMigrations());
+  const pending = files.filter((file) => !applied.has(file));
+  const latest = files[files.length - 1] ?? null;
+
+  return {
+    check: pending.length > 0 ? failed(`${pending.length} migration(s) pending: ${pending.join(', ')}`) : ok,
+    latest,
+    pending,
+  };
+}
+
+async function checkCatalog(): Promise<{ check: HealthCheck; eligibleMovies: number }> {
+  const eligibleMovies = await countEligibleMovies();
+  const { minEligibleMovies } = config.health;
+
+  return {
+    check:
+      eligibleMovies < minEligibleMovies
+        ? failed(`${eligibleMovies} eligible movies, need at least ${minEligibleMovies}`)
+        : ok,
+    eligibleMovies,
+  };
+}
+
+function poolUsage() {
+  const max = pool.options.max ?? 10;
+  const total = pool.totalCount;
+  const idle = pool.idleCount;
+  return {
+    total,
+    idle,
+    waiting: pool.waitingCount,
+    max,
+    // Share of the pool's connections checked out by queries
+    saturation: Math.round(((total - idle) / max) * 100) / 100,
+  };
+}
 
 export async function healthRoutes(fastify: FastifyInstance): Promise<void> {
-  fastify.get<{ Reply: HealthResponse }>('/health', async (_request, reply) => {
+  fastify.get<{ Reply: HealthResponse }>('/health', { schema: healthSchema }, async (_request, reply) => {
     const dbHealthy = await healthCheck();
 
     if (!dbHealthy) {
@@ -18,4 +158,63 @@ export async function healthRoutes(fastify: FastifyInstance): Promise<void> {
       timestamp: new Date().toISOString(),
     };
   });
+
+  // Liveness: the process is up and serving requests. Doesn't touch the
+  // database, so an outage doesn't get healthy instances restarted.
+  fastify.get<{ Reply: HealthResponse }>('/health/live', { schema: healthSchema }, async () => {
+    return {
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+    };
+  });
+
+  // Readiness: the instance can serve picks. 503 until the database is
+  // reachable, fully migrated and has enough pickable movies.
+  fastify.get<{ Querystring: ReadinessQuery; Reply: ReadinessResponse }>(
+    '/health/ready',
+    { schema: readinessSchema },
+    async (request, reply) => {
+      const database = (await healthCheck()) ? ok : failed('Database unreachable');
+      const unavailable = failed('Skipped: database unreachable');
+
+      let migrations = { check: unavailable, latest: null as string | null, pending: [] as string[] };
+      let catalog = { check: unavailable, eligibleMovies: null as number | null };
+
+      if (database.status === 'ok') {
+        try {
+          migrations = await checkMigrations();
+        } catch (error) {
+          request.log.error(error, 'Migration readiness check failed');
+          migrations = { ...migrations, check: failed('Could not read migrations') };
+        }
+
+        try {
+          catalog = await checkCatalog();
+        } catch (error) {
+          request.log.error(error, 'Catalog readiness check failed');
+          catalog = { ...catalog, check: failed('Could not count eligible movies') };
+        }
+      }
+
+      const checks = { database, migrations: migrations.check, catalog: catalog.check };
+      const ready = Object.values(checks).every((check) => check.status === 'ok');
+
+      const response: ReadinessResponse = {
+        status: ready ? 'ok' : 'error',
+        timestamp: new Date().toISOString(),
+        checks,
+      };
+
+      if (request.query.detail) {
+        response.details = {
+          migrations: { latest: migrations.latest, pending: migrations.pending },
+          catalog: { eligibleMovies: catalog.eligibleMovies, minEligibleMovies: config.health.minEligibleMovies },
+          pool: poolUsage(),
+          tmdb: { configured: isTmdbConfigured(), circuit: getTmdbCircuitState() },
+        };
+      }
+
+      return reply.status(ready ? 200 : 503).send(response);
+    }
+  );
 }
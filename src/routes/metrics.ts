@@ -0,0 +1,19 @@
+import type { FastifyInstance } from 'fastify';
+import { pool } from '../db/client.js';
+import { createGauge, renderMetrics } from '../services/metrics.js';
+
+createGauge('muse_db_pool_connections', 'Postgres pool connections by state.', () => [
+  { labels: { state: 'total' }, value: pool.totalCount },
+  { labels: { state: 'idle' }, value: pool.idleCount },
+]);
+
+createGauge('muse_db_pool_waiting_requests', 'Queries waiting for a free Postgres connection.', () => [
+  { labels: {}, value: pool.waitingCount },
+]);
+
+export async function metricsRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.get('/metrics', async (_request, reply) => {
+    reply.header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    return renderMetrics();
+  });
+}
@@ -0,0 +1,251 @@
+import type { FastifyInstance } from 'fastify';
+import {
+  getMoviesByIds,
+  getMoviesByTmdbIds,
+  getRecentPickMovieIds,
+  getSimilarCandidateMovies,
+} from '../db/queries.js';
+import { hydrateMovies } from '../services/movies.js';
+import { resolveRequestLocale } from '../services/i18n.js';
+import { apiError } from '../errors.js';
+import {
+  errorResponses,
+  langQuerySchema,
+  langSchema,
+  MAX_INTEGER_ID,
+  movieIdParamsSchema,
+  movieSchema,
+  sessionIdSchema,
+} from '../schemas/index.js';
+import type { ErrorResponse, Movie } from '../types/index.js';
+import { config } from '../config.js';
+
+interface MovieParams {
+  id: number;
+}
+
+interface MoviesQuery {
+  ids?: string;
+  tmdbIds?: string;
+  lang?: string;
+}
+
+interface SimilarQuery {
+  sessionId?: string;
+  limit: number;
+  lang?: string;
+}
+
+interface MovieResponse {
+  movie: Movie;
+}
+
+interface SimilarMoviesResponse {
+  movies: { movie: Movie; similarity: number }[];
+}
+
+interface MoviesResponse {
+  movies: Movie[];
+  notFound: number[];
+}
+
+const MAX_BATCH_SIZE = 100;
+
+// Long enough for a full batch of 10-digit IDs
+const idListSchema = {
+  type: 'string',
+  maxLength: MAX_BATCH_SIZE * 12,
+  pattern: '^\\s*\\d+\\s*(,\\s*\\d+\\s*)*$',
+} as const;
+
+const getMovieSchema = {
+  params: movieIdParamsSchema,
+  querystring: langQuerySchema,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        movie: movieSchema,
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+const getMoviesSchema = {
+  querystring: {
+    type: 'object',
+    properties: {
+      ids: idListSchema,
+      tmdbIds: idListSchema,
+      lang: langSchema,
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        movies: { type: 'array', items: movieSchema },
+        notFound: { type: 'array', items: { type: 'integer' } },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+const getSimilarSchema = {
+  params: movieIdParamsSchema,
+  querystring: {
+    type: 'object',
+    properties: {
+      sessionId: sessionIdSchema,
+      limit: {
+        type: 'integer',
+        minimum: 1,
+        maximum: config.similar.maxLimit,
+        default: config.similar.defaultLimit,
+      },
+      lang: langSchema,
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        movies: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              movie: movieSchema,
+              similarity: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+// Parse a validated comma-separated list of IDs, dropping duplicates and zeros.
+// Null when an ID is too large to exist.
+function parseIdList(value: string): number[] | null {
+  const ids = value.split(',').map((id) => parseInt(id, 10));
+  if (ids.some((id) => id > MAX_INTEGER_ID)) {
+    return null;
+  }
+  return [...new Set(ids.filter((id) => id > 0))];
+}
+
+export async function movieRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.get<{ Params: MovieParams; Querystring: { lang?: string }; Reply: MovieResponse | ErrorResponse }>(
+    '/movies/:id',
+    { schema: getMovieSchema },
+    async (request, reply) => {
+      try {
+        const rows = await getMoviesByIds([request.params.id]);
+
+        if (rows.length === 0) {
+          return reply.status(404).send(apiError('NOT_FOUND', 'Movie not found', 'id'));
+        }
+
+        const [movie] = await hydrateMovies(rows, resolveRequestLocale(request, reply));
+        return { movie };
+      } catch (error) {
+        request.log.error(error, 'Movie fetch failed');
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to fetch movie.'));
+      }
+    }
+  );
+
+  // "More like this": pickable movies ranked by similarity to this one.
+  // With a sessionId, the session's recent picks, feedback exclusions and
+  // lists are left out, as for /candidates.
+  fastify.get<{ Params: MovieParams; Querystring: SimilarQuery; Reply: SimilarMoviesResponse | ErrorResponse }>(
+    '/movies/:id/similar',
+    { schema: getSimilarSchema },
+    async (request, reply) => {
+      const { id } = request.params;
+      const { sessionId, limit } = request.query;
+
+      try {
+        if ((await getMoviesByIds([id])).length === 0) {
+          return reply.status(404).send(apiError('NOT_FOUND', 'Movie not found', 'id'));
+        }
+
+        const recentIds = sessionId ? await getRecentPickMovieIds(sessionId) : [];
+        const rows = await getSimilarCandidateMovies(id, {}, recentIds, sessionId, limit);
+        const movies = await hydrateMovies(rows, resolveRequestLocale(request, reply));
+
+        return {
+          movies: movies.map((movie, i) => ({
+            movie,
+            similarity: Math.round(rows[i].similarity * 1000) / 1000,
+          })),
+        };
+      } catch (error) {
+        request.log.error(error, 'Similar movies fetch failed');
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to fetch similar movies.'));
+      }
+    }
+  );
+
+  fastify.get<{ Querystring: MoviesQuery; Reply: MoviesResponse | ErrorResponse }>(
+    '/movies',
+    { schema: getMoviesSchema },
+    async (request, reply) => {
+      const { ids, tmdbIds } = request.query;
+
+      if ((ids === undefined) === (tmdbIds === undefined)) {
+        return reply.status(400).send(
+          apiError('VALIDATION_ERROR', 'Exactly one of ids or tmdbIds query parameters is required.', 'ids')
+        );
+      }
+
+      const field = ids !== undefined ? 'ids' : 'tmdbIds';
+      const requested = parseIdList(ids ?? tmdbIds ?? '');
+
+      if (requested === null) {
+        return reply.status(400).send(
+          apiError('VALIDATION_ERROR', `IDs must be at most ${MAX_INTEGER_ID}.`, field)
+        );
+      }
+
+      if (requested.length === 0) {
+        return reply.status(400).send(
+          apiError('VALIDATION_ERROR', 'IDs must be positive integers.', field)
+        );
+      }
+
+      if (requested.length > MAX_BATCH_SIZE) {
+        return reply.status(400).send(
+          apiError('VALIDATION_ERROR', `At most ${MAX_BATCH_SIZE} IDs can be requested at once.`, field)
+        );
+      }
+
+      try {
+        const byTmdbId = tmdbIds !== undefined;
+        const rows = byTmdbId
+          ? await getMoviesByTmdbIds(requested)
+          : await getMoviesByIds(requested);
+
+        // Return movies in the order they were requested
+        const key = (row: { id: number; tmdb_id: number }) => (byTmdbId ? row.tmdb_id : row.id);
+        const rowsById = new Map(rows.map((row) => [key(row), row]));
+        const ordered = requested.flatMap((id) => {
+          const row = rowsById.get(id);
+          return row ? [row] : [];
+        });
+
+        const movies = await hydrateMovies(ordered, resolveRequestLocale(request, reply));
+        const notFound = requested.filter((id) => !rowsById.has(id));
+
+        return { movies, notFound };
+      } catch (error) {
+        request.log.error(error, 'Movies batch fetch failed');
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to fetch movies.'));
+      }
+    }
+  );
+}
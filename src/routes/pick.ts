@@ -1,55 +1,98 @@
 import type { FastifyInstance } from 'fastify';
+import { getMoviesByIds } from '../db/queries.js';
 import { pickMovie } from '../services/picker.js';
-import type { PickRequest, PickResponse } from '../types/index.js';
+import { generateSeed, normalizeSeed } from '../services/random.js';
+import { validateFilterRanges } from '../services/filters.js';
+import { resolveRequestLocale } from '../services/i18n.js';
+import { apiError } from '../errors.js';
+import {
+  errorResponses,
+  langQuerySchema,
+  nullableMovieSchema,
+  pickExplanationSchema,
+  pickFiltersSchema,
+  positiveIntegerSchema,
+  scoringModeSchema,
+  seedSchema,
+  sessionIdSchema,
+} from '../schemas/index.js';
+import type { ErrorResponse, PickRequest, PickResponse } from '../types/index.js';
+import { config } from '../config.js';
+
+const pickSchema = {
+  querystring: langQuerySchema,
+  body: {
+    type: 'object',
+    required: ['sessionId'],
+    properties: {
+      sessionId: sessionIdSchema,
+      filters: pickFiltersSchema,
+      mode: scoringModeSchema,
+      explain: { type: 'boolean' },
+      seed: seedSchema,
+      likeMovieId: positiveIntegerSchema,
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        movie: nullableMovieSchema,
+        seed: { type: 'string' },
+        explanation: pickExplanationSchema,
+        message: { type: 'string' },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
 
 export async function pickRoutes(fastify: FastifyInstance): Promise<void> {
-  fastify.post<{ Body: PickRequest; Reply: PickResponse | { error: string } }>(
+  fastify.post<{ Body: PickRequest; Querystring: { lang?: string }; Reply: PickResponse | ErrorResponse }>(
     '/pick',
+    { schema: pickSchema },
     async (request, reply) => {
-      const { sessionId, filters } = request.body;
-
-      // Validate session ID (accepts Firebase UIDs or UUIDs)
-      if (!sessionId || typeof sessionId !== 'string' || sessionId.length < 1 || sessionId.length > 255) {
-        return reply.status(400).send({
-          error: 'Invalid session ID format.',
-        });
-      }
+      const { sessionId, filters, mode = config.selection.scoring.defaultMode, explain, likeMovieId } = request.body;
+      const seed = request.body.seed === undefined ? generateSeed() : normalizeSeed(request.body.seed);
 
-      // Validate filters
-      if (filters.minDuration !== undefined && filters.minDuration < 60) {
-        return reply.status(400).send({
-          error: 'minDuration must be at least 60 minutes.',
-        });
+      if (seed === null) {
+        return reply.status(400).send(
+          apiError('VALIDATION_ERROR', 'seed must be a safe integer or a string of up to 64 characters.', 'seed')
+        );
       }
 
-      if (filters.maxDuration !== undefined && filters.maxDuration < 60) {
-        return reply.status(400).send({
-          error: 'maxDuration must be at least 60 minutes.',
-        });
+      const filtersError = validateFilterRanges(filters);
+      if (filtersError) {
+        return reply.status(400).send(filtersError);
       }
 
-      if (filters.genreIds !== undefined && !Array.isArray(filters.genreIds)) {
-        return reply.status(400).send({
-          error: 'genreIds must be an array.',
-        });
-      }
+      const locale = resolveRequestLocale(request, reply);
 
       try {
-        const movie = await pickMovie(sessionId, filters || {});
+        if (likeMovieId !== undefined && (await getMoviesByIds([likeMovieId])).length === 0) {
+          return reply.status(404).send(apiError('NOT_FOUND', 'Movie not found', 'likeMovieId'));
+        }
+
+        const result = await pickMovie(sessionId, filters, { seed, mode, locale, likeMovieId });
 
-        if (!movie) {
+        if (!result) {
           return {
             movie: null,
+            seed,
             message: 'No movies match your criteria. Try broader filters.',
           };
         }
 
-        return { movie };
+        if (explain) {
+          return { movie: result.movie, seed, explanation: result.explanation };
+        }
+
+        return { movie: result.movie, seed };
       } catch (error) {
         request.log.error(error, 'Pick failed');
-        return reply.status(500).send({
-          error: 'Failed to pick a movie. Please try again.',
-        });
+        return reply.status(500).send(
+          apiError('INTERNAL_ERROR', 'Failed to pick a movie. Please try again.')
+        );
       }
     }
   );
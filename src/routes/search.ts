@@ -1,56 +1,97 @@
 import type { FastifyInstance } from 'fastify';
-import { searchMovieByTitle, getMovieGenres } from '../db/queries.js';
-import type { Movie, MovieRow } from '../types/index.js';
+import { searchMovies } from '../db/queries.js';
+import { hydrateMovies } from '../services/movies.js';
+import { resolveRequestLocale } from '../services/i18n.js';
+import { apiError } from '../errors.js';
+import { errorResponses, langSchema, movieSchema, nullableMovieSchema } from '../schemas/index.js';
+import type { ErrorResponse, Movie, MovieSearchResult } from '../types/index.js';
 import { config } from '../config.js';
 
 interface SearchQuery {
   title: string;
+  year?: number;
+  limit: number;
+  offset: number;
+  lang?: string;
 }
 
 interface SearchResponse {
+  // Best match, kept for clients that only need a single hit
   movie: Movie | null;
+  results: MovieSearchResult[];
+  totalResults: number;
+  limit: number;
+  offset: number;
 }
 
-function toMovie(row: MovieRow, genres: string[]): Movie {
-  return {
-    id: row.id,
-    tmdbId: row.tmdb_id,
-    title: row.title,
-    year: row.year,
-    runtime: row.runtime || 0,
-    synopsis: row.synopsis || '',
-    posterUrl: row.poster_path
-      ? `${config.tmdbImageBaseUrl}${row.poster_path}`
-      : '',
-    voteAverage: Number(row.vote_average),
-    genres,
-  };
-}
+const searchSchema = {
+  querystring: {
+    type: 'object',
+    required: ['title'],
+    properties: {
+      title: { type: 'string', minLength: 1, maxLength: 200, pattern: '\\S' },
+      year: { type: 'integer', minimum: 1874, maximum: 2100 },
+      limit: {
+        type: 'integer',
+        minimum: 1,
+        maximum: config.search.maxLimit,
+        default: config.search.defaultLimit,
+      },
+      offset: { type: 'integer', minimum: 0, default: 0 },
+      lang: langSchema,
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        movie: nullableMovieSchema,
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              movie: movieSchema,
+              score: { type: 'number' },
+            },
+          },
+        },
+        totalResults: { type: 'integer' },
+        limit: { type: 'integer' },
+        offset: { type: 'integer' },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
 
 export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
-  fastify.get<{ Querystring: SearchQuery; Reply: SearchResponse | { error: string } }>(
+  fastify.get<{ Querystring: SearchQuery; Reply: SearchResponse | ErrorResponse }>(
     '/movies/search',
+    { schema: searchSchema },
     async (request, reply) => {
-      const { title } = request.query;
-
-      if (!title || title.trim().length === 0) {
-        return reply.status(400).send({ error: 'title query parameter is required' });
-      }
+      const { title, year, limit, offset } = request.query;
+      const locale = resolveRequestLocale(request, reply);
 
       try {
-        const row = await searchMovieByTitle(title.trim());
+        const { rows, total } = await searchMovies(title.trim(), { year, limit, offset });
+        const movies = await hydrateMovies(rows, locale);
 
-        if (!row) {
-          return { movie: null };
-        }
+        const results = movies.map((movie, i) => ({
+          movie,
+          score: Number(rows[i].score),
+        }));
 
-        const genres = await getMovieGenres(row.id);
-        return { movie: toMovie(row, genres) };
+        return {
+          movie: offset === 0 ? results[0]?.movie ?? null : null,
+          results,
+          totalResults: total,
+          limit,
+          offset,
+        };
       } catch (error) {
         request.log.error(error, 'Movie search failed');
-        return reply.status(500).send({
-          error: 'Failed to search for movie.',
-        });
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to search for movie.'));
       }
     }
   );
@@ -0,0 +1,464 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import {
+  addToSessionList,
+  deleteSessionData,
+  getSessionList,
+  getSessionPicks,
+  mergeSessions,
+  removeFromSessionList,
+} from '../db/queries.js';
+import { hydrateMovies } from '../services/movies.js';
+import { resolveRequestLocale } from '../services/i18n.js';
+import { escapeFormula, toCsvLine } from '../services/csv.js';
+import { verifyFirebaseIdToken } from '../services/firebase-auth.js';
+import { apiError } from '../errors.js';
+import { config } from '../config.js';
+import {
+  anonymousSessionIdSchema,
+  errorResponses,
+  langQuerySchema,
+  langSchema,
+  movieSchema,
+  positiveIntegerSchema,
+  sessionIdSchema,
+} from '../schemas/index.js';
+import type {
+  ErrorResponse,
+  SessionDeletionResponse,
+  SessionListResponse,
+  SessionListType,
+  SessionMergeRequest,
+  SessionMergeResponse,
+  SessionPick,
+  SessionPickRow,
+  SessionPicksResponse,
+} from '../types/index.js';
+
+interface SessionParams {
+  id: string;
+}
+
+interface SessionMovieParams extends SessionParams {
+  movieId: number;
+}
+
+interface SessionListBody {
+  movieId: number;
+}
+
+interface PicksQuery {
+  before?: number;
+  limit?: number;
+  lang?: string;
+}
+
+interface ExportQuery {
+  format?: 'json' | 'csv';
+  lang?: string;
+}
+
+const SESSION_LISTS: SessionListType[] = ['watchlist', 'watched'];
+
+const CSV_COLUMNS = [
+  'picked_at',
+  'pick_id',
+  'movie_id',
+  'tmdb_id',
+  'title',
+  'original_title',
+  'year',
+  'genres',
+  'countries',
+  'filters',
+];
+
+const ANONYMOUS_SESSION_ID = new RegExp(anonymousSessionIdSchema.pattern);
+
+const sessionParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: sessionIdSchema,
+  },
+} as const;
+
+const getListSchema = {
+  params: sessionParamsSchema,
+  querystring: langQuerySchema,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              movie: movieSchema,
+              addedAt: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+const addToListSchema = {
+  params: sessionParamsSchema,
+  body: {
+    type: 'object',
+    required: ['movieId'],
+    properties: {
+      movieId: positiveIntegerSchema,
+    },
+  },
+  response: {
+    201: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+const removeFromListSchema = {
+  params: {
+    type: 'object',
+    required: ['id', 'movieId'],
+    properties: {
+      id: sessionIdSchema,
+      movieId: positiveIntegerSchema,
+    },
+  },
+  response: errorResponses,
+} as const;
+
+const sessionPickSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    movie: movieSchema,
+    filters: { type: ['object', 'null'], additionalProperties: true },
+    pickedAt: { type: 'string' },
+  },
+} as const;
+
+const getPicksSchema = {
+  params: sessionParamsSchema,
+  querystring: {
+    type: 'object',
+    properties: {
+      before: positiveIntegerSchema,
+      limit: { type: 'integer', minimum: 1, maximum: config.history.maxLimit },
+      lang: langSchema,
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        items: { type: 'array', items: sessionPickSchema },
+        nextBefore: { type: ['integer', 'null'] },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+// No 200 schema: the body is either JSON or CSV
+const exportPicksSchema = {
+  params: sessionParamsSchema,
+  querystring: {
+    type: 'object',
+    properties: {
+      format: { type: 'string', enum: ['json', 'csv'], default: 'json' },
+      lang: langSchema,
+    },
+  },
+  response: errorResponses,
+} as const;
+
+const deleteSessionSchema = {
+  params: sessionParamsSchema,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        deleted: {
+          type: 'object',
+          properties: {
+            picks: { type: 'integer' },
+            feedback: { type: 'integer' },
+            lists: { type: 'integer' },
+          },
+        },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+const mergeSessionsSchema = {
+  body: {
+    type: 'object',
+    required: ['fromSessionId', 'toSessionId'],
+    properties: {
+      fromSessionId: anonymousSessionIdSchema,
+      toSessionId: sessionIdSchema,
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        moved: {
+          type: 'object',
+          properties: {
+            picks: { type: 'integer' },
+            feedback: { type: 'integer' },
+            lists: { type: 'integer' },
+          },
+        },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+// Token from an `Authorization: Bearer` header, or null when there is none
+function bearerToken(request: FastifyRequest): string | null {
+  const authorization = request.headers.authorization;
+  return authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null;
+}
+
+// Anonymous (UUID) session IDs are unguessable, so knowing one is enough.
+// Any other ID is a Firebase UID, which is not secret: reading or erasing
+// that history needs a Firebase ID token for the same user.
+async function requireSessionOwner(
+  request: FastifyRequest<{ Params: SessionParams }>,
+  reply: FastifyReply
+): Promise<void> {
+  const sessionId = request.params.id;
+  if (ANONYMOUS_SESSION_ID.test(sessionId)) return;
+
+  const token = bearerToken(request);
+  if (token === null) {
+    return reply
+      .status(401)
+      .send(apiError('UNAUTHORIZED', 'Firebase ID token required in the Authorization header.'));
+  }
+
+  try {
+    const uid = await verifyFirebaseIdToken(token);
+    if (uid === null) {
+      return reply.status(401).send(apiError('UNAUTHORIZED', 'Invalid Firebase ID token.'));
+    }
+    if (uid !== sessionId) {
+      return reply.status(403).send(apiError('FORBIDDEN', "Session ID must be the signed-in user's UID.", 'id'));
+    }
+  } catch (error) {
+    request.log.error(error, 'Verifying Firebase ID token failed');
+    return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to verify Firebase ID token.'));
+  }
+}
+
+async function toSessionPicks(rows: SessionPickRow[], locale: string): Promise<SessionPick[]> {
+  const movies = await hydrateMovies(rows, locale);
+  return rows.map((row, i) => ({
+    id: row.pick_id,
+    movie: movies[i],
+    filters: row.filters,
+    pickedAt: row.picked_at.toISOString(),
+  }));
+}
+
+export async function sessionRoutes(fastify: FastifyInstance): Promise<void> {
+  for (const list of SESSION_LISTS) {
+    fastify.get<{ Params: SessionParams; Querystring: { lang?: string }; Reply: SessionListResponse | ErrorResponse }>(
+      `/sessions/:id/${list}`,
+      { schema: getListSchema },
+      async (request, reply) => {
+        try {
+          const rows = await getSessionList(request.params.id, list);
+          const movies = await hydrateMovies(rows, resolveRequestLocale(request, reply));
+
+          const items = movies.map((movie, i) => ({
+            movie,
+            addedAt: rows[i].added_at.toISOString(),
+          }));
+
+          return { items };
+        } catch (error) {
+          request.log.error(error, `Fetching ${list} failed`);
+          return reply.status(500).send(apiError('INTERNAL_ERROR', `Failed to fetch ${list}.`));
+        }
+      }
+    );
+
+    fastify.post<{ Params: SessionParams; Body: SessionListBody; Reply: { success: true } | ErrorResponse }>(
+      `/sessions/:id/${list}`,
+      { schema: addToListSchema },
+      async (request, reply) => {
+        try {
+          await addToSessionList(request.params.id, list, request.body.movieId);
+          return reply.status(201).send({ success: true });
+        } catch (error) {
+          // Foreign key violation: the movie does not exist
+          if ((error as { code?: string }).code === '23503') {
+            return reply.status(404).send(apiError('NOT_FOUND', 'Movie not found', 'movieId'));
+          }
+          request.log.error(error, `Adding to ${list} failed`);
+          return reply.status(500).send(apiError('INTERNAL_ERROR', `Failed to add movie to ${list}.`));
+        }
+      }
+    );
+
+    fastify.delete<{ Params: SessionMovieParams }>(
+      `/sessions/:id/${list}/:movieId`,
+      { schema: removeFromListSchema },
+      async (request, reply) => {
+        try {
+          const removed = await removeFromSessionList(request.params.id, list, request.params.movieId);
+
+          if (!removed) {
+            return reply.status(404).send(apiError('NOT_FOUND', `Movie is not on the ${list}`, 'movieId'));
+          }
+
+          return reply.status(204).send();
+        } catch (error) {
+          request.log.error(error, `Removing from ${list} failed`);
+          return reply.status(500).send(apiError('INTERNAL_ERROR', `Failed to remove movie from ${list}.`));
+        }
+      }
+    );
+  }
+
+  fastify.get<{ Params: SessionParams; Querystring: PicksQuery; Reply: SessionPicksResponse | ErrorResponse }>(
+    '/sessions/:id/picks',
+    { schema: getPicksSchema, preHandler: requireSessionOwner },
+    async (request, reply) => {
+      const { before, limit = config.history.defaultLimit } = request.query;
+      try {
+        const rows = await getSessionPicks(request.params.id, { before, limit });
+        const items = await toSessionPicks(rows, resolveRequestLocale(request, reply));
+
+        return {
+          items,
+          nextBefore: rows.length === limit ? rows[rows.length - 1].pick_id : null,
+        };
+      } catch (error) {
+        request.log.error(error, 'Fetching pick history failed');
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to fetch pick history.'));
+      }
+    }
+  );
+
+  // Pick history as a download, newest picks up to history.exportMaxPicks
+  fastify.get<{ Params: SessionParams; Querystring: ExportQuery }>(
+    '/sessions/:id/picks/export',
+    { schema: exportPicksSchema, preHandler: requireSessionOwner },
+    async (request, reply) => {
+      const sessionId = request.params.id;
+      try {
+        const { exportMaxPicks } = config.history;
+        const rows = await getSessionPicks(sessionId, { limit: exportMaxPicks + 1 });
+        const truncated = rows.length > exportMaxPicks;
+        const exported = rows.slice(0, exportMaxPicks);
+        const picks = await toSessionPicks(exported, resolveRequestLocale(request, reply));
+
+        if (request.query.format === 'csv') {
+          // Every free-text cell is escaped: titles, overrides and names come from TMDB or admins
+          const lines = picks.map((pick, i) =>
+            toCsvLine([
+              pick.pickedAt,
+              pick.id,
+              pick.movie.id,
+              pick.movie.tmdbId,
+              escapeFormula(pick.movie.title),
+              escapeFormula(exported[i].original_title),
+              pick.movie.year,
+              escapeFormula(pick.movie.genres.join('; ')),
+              escapeFormula(pick.movie.countries.join('; ')),
+              pick.filters ? JSON.stringify(pick.filters) : null,
+            ])
+          );
+          return reply
+            .header('Content-Type', 'text/csv; charset=utf-8')
+            .header('Content-Disposition', 'attachment; filename="picks.csv"')
+            .send([CSV_COLUMNS.join(','), ...lines].join('\n') + '\n');
+        }
+
+        return reply
+          .header('Content-Disposition', 'attachment; filename="picks.json"')
+          .send({ sessionId, exportedAt: new Date().toISOString(), truncated, picks });
+      } catch (error) {
+        request.log.error(error, 'Exporting pick history failed');
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to export pick history.'));
+      }
+    }
+  );
+
+  // Move an anonymous session's history into a signed-in account, so picks
+  // keep avoiding repeats after sign-in. Merging again is a no-op.
+  // The caller proves it owns the account with a Firebase ID token; the
+  // source must be an anonymous (UUID) session, never another account.
+  fastify.post<{ Body: SessionMergeRequest; Reply: SessionMergeResponse | ErrorResponse }>(
+    '/sessions/merge',
+    { schema: mergeSessionsSchema },
+    async (request, reply) => {
+      const { fromSessionId, toSessionId } = request.body;
+
+      if (fromSessionId === toSessionId) {
+        return reply
+          .status(400)
+          .send(apiError('VALIDATION_ERROR', 'toSessionId must differ from fromSessionId', 'toSessionId'));
+      }
+
+      const token = bearerToken(request);
+      if (token === null) {
+        return reply
+          .status(401)
+          .send(apiError('UNAUTHORIZED', 'Firebase ID token required in the Authorization header.'));
+      }
+
+      try {
+        const uid = await verifyFirebaseIdToken(token);
+        if (uid === null) {
+          return reply.status(401).send(apiError('UNAUTHORIZED', 'Invalid Firebase ID token.'));
+        }
+        if (uid !== toSessionId) {
+          return reply
+            .status(403)
+            .send(apiError('FORBIDDEN', "toSessionId must be the signed-in user's UID.", 'toSessionId'));
+        }
+
+        const moved = await mergeSessions(fromSessionId, toSessionId);
+        return { moved };
+      } catch (error) {
+        request.log.error(error, 'Merging sessions failed');
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to merge sessions.'));
+      }
+    }
+  );
+
+  // Erase everything stored for a session (privacy deletion requests).
+  // Succeeds with zero counts for unknown sessions, so retries are safe.
+  fastify.delete<{ Params: SessionParams; Reply: SessionDeletionResponse | ErrorResponse }>(
+    '/sessions/:id',
+    { schema: deleteSessionSchema, preHandler: requireSessionOwner },
+    async (request, reply) => {
+      try {
+        const deleted = await deleteSessionData(request.params.id);
+        request.log.info({ deleted }, 'Session data erased');
+        return { deleted };
+      } catch (error) {
+        request.log.error(error, 'Erasing session failed');
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to delete session.'));
+      }
+    }
+  );
+}
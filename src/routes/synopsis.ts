@@ -1,9 +1,15 @@
 import type { FastifyInstance } from 'fastify';
-import { getTmdbId } from '../db/queries.js';
+import { getMovieCuration, getMoviesTranslations, getTmdbId } from '../db/queries.js';
 import { config } from '../config.js';
+import { createTmdbCache, MOVIE_NOT_FOUND } from '../services/cache.js';
+import { fetchMovieDetails, isTmdbConfigured, type TMDBMovie } from '../services/tmdb.js';
+import { DEFAULT_LOCALE, TMDB_LOCALES, toSupportedLocale } from '../services/i18n.js';
+import { apiError } from '../errors.js';
+import { errorResponses, movieIdParamsSchema } from '../schemas/index.js';
+import type { ErrorResponse } from '../types/index.js';
 
 interface SynopsisParams {
-  id: string;
+  id: number;
 }
 
 interface SynopsisQuery {
@@ -14,83 +20,98 @@ interface SynopsisResponse {
   synopsis: string | null;
 }
 
-// Map short language codes to TMDB locale codes
-const LOCALE_MAP: Record<string, string> = {
-  de: 'de-DE',
-  es: 'es-ES',
-  fr: 'fr-FR',
-  it: 'it-IT',
-  ja: 'ja-JP',
-  pt: 'pt-BR',
-  'pt-BR': 'pt-BR',
-  tr: 'tr-TR',
-  en: 'en-US',
-};
-
-// In-memory cache: key = "movieId:lang"
-const synopsisCache = new Map<string, { synopsis: string | null; cachedAt: number }>();
-const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days — synopses rarely change
+// Shared cache, keyed by movie and TMDB locale
+const synopsisCache = createTmdbCache<SynopsisResponse>({
+  namespace: 'synopsis',
+  ...config.cache.synopsis,
+  isNegative: (value) => value.synopsis === null,
+});
+
+const synopsisSchema = {
+  params: movieIdParamsSchema,
+  querystring: {
+    type: 'object',
+    properties: {
+      lang: { type: 'string', pattern: '^[a-z]{2}(-[A-Z]{2})?$' },
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        synopsis: { type: ['string', 'null'] },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
 
 export async function synopsisRoutes(fastify: FastifyInstance): Promise<void> {
-  fastify.get<{ Params: SynopsisParams; Querystring: SynopsisQuery; Reply: SynopsisResponse | { error: string } }>(
+  fastify.get<{ Params: SynopsisParams; Querystring: SynopsisQuery; Reply: SynopsisResponse | ErrorResponse }>(
     '/movies/:id/synopsis',
+    { schema: synopsisSchema },
     async (request, reply) => {
-      const movieId = parseInt(request.params.id, 10);
-      const lang = request.query.lang || 'en';
-
-      if (isNaN(movieId) || movieId <= 0) {
-        return reply.status(400).send({ error: 'Invalid movie ID' });
-      }
+      const movieId = request.params.id;
+      const lang = request.query.lang || DEFAULT_LOCALE;
+      const locale = toSupportedLocale(lang);
 
       // Don't bother calling TMDB for English — the DB already has it
-      if (lang === 'en') {
+      if (locale === DEFAULT_LOCALE) {
         return { synopsis: null };
       }
 
-      const tmdbLocale = LOCALE_MAP[lang] || `${lang}-${lang.toUpperCase()}`;
-      const cacheKey = `${movieId}:${tmdbLocale}`;
-
-      // Check cache first
-      const cached = synopsisCache.get(cacheKey);
-      if (cached && Date.now() - cached.cachedAt < CACHE_TTL_MS) {
-        return { synopsis: cached.synopsis };
-      }
+      const tmdbLocale = locale ? TMDB_LOCALES[locale] : `${lang}-${lang.toUpperCase()}`;
 
       try {
-        const tmdbId = await getTmdbId(movieId);
-
-        if (!tmdbId) {
-          return reply.status(404).send({ error: 'Movie not found' });
+        // An admin override replaces the synopsis in every language
+        const override = (await getMovieCuration(movieId))?.synopsis_override;
+        if (override) {
+          return { synopsis: override };
         }
 
-        if (!config.tmdbApiKey) {
-          request.log.warn('TMDB_API_KEY not configured — cannot fetch localized synopsis');
-          return { synopsis: null };
+        // Seeded translations avoid a TMDB round trip
+        if (locale) {
+          const translations = await getMoviesTranslations([movieId], locale);
+          const stored = translations.get(movieId)?.synopsis;
+          if (stored) {
+            return { synopsis: stored };
+          }
         }
 
-        // Call TMDB movie detail endpoint with the requested language
-        const tmdbUrl = `https://api.themoviedb.org/3/movie/${tmdbId}?api_key=${config.tmdbApiKey}&language=${tmdbLocale}`;
-        const response = await fetch(tmdbUrl);
-
-        if (!response.ok) {
-          request.log.error(`TMDB API error: ${response.status}`);
-          return { synopsis: null };
+        const result = await synopsisCache.get(movieId, tmdbLocale, async () => {
+          const tmdbId = await getTmdbId(movieId);
+
+          if (!tmdbId) {
+            return MOVIE_NOT_FOUND;
+          }
+
+          if (!isTmdbConfigured()) {
+            request.log.warn('TMDB_ACCESS_TOKEN not configured — cannot fetch localized synopsis');
+            return null;
+          }
+
+          // Call TMDB movie detail endpoint with the requested language
+          let data: TMDBMovie;
+          try {
+            data = await fetchMovieDetails(tmdbId, tmdbLocale);
+          } catch (error) {
+            request.log.error(error, 'TMDB movie request failed');
+            return null;
+          }
+
+          // TMDB returns empty string when no translation exists
+          const synopsis = data.overview && data.overview.trim().length > 0 ? data.overview.trim() : null;
+          return { synopsis };
+        }, request.log);
+
+        if (result === MOVIE_NOT_FOUND) {
+          return reply.status(404).send(apiError('NOT_FOUND', 'Movie not found', 'id'));
         }
 
-        const data = (await response.json()) as {
-          overview?: string;
-        };
-
-        // TMDB returns empty string when no translation exists
-        const synopsis = data.overview && data.overview.trim().length > 0 ? data.overview.trim() : null;
-
-        // Cache the result
-        synopsisCache.set(cacheKey, { synopsis, cachedAt: Date.now() });
-
-        return { synopsis };
+        return result ?? { synopsis: null };
       } catch (error) {
         request.log.error(error, 'Localized synopsis fetch failed');
-        return reply.status(500).send({ error: 'Failed to fetch synopsis' });
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to fetch synopsis'));
       }
     }
   );
@@ -1,9 +1,14 @@
 import type { FastifyInstance } from 'fastify';
 import { getTmdbId } from '../db/queries.js';
 import { config } from '../config.js';
+import { createTmdbCache, MOVIE_NOT_FOUND } from '../services/cache.js';
+import { fetchMovieVideos, isTmdbConfigured, type TMDBVideo } from '../services/tmdb.js';
+import { apiError } from '../errors.js';
+import { errorResponses, movieIdParamsSchema } from '../schemas/index.js';
+import type { ErrorResponse } from '../types/index.js';
 
 interface TrailerParams {
-  id: string;
+  id: number;
 }
 
 interface TrailerResponse {
@@ -11,85 +16,83 @@ interface TrailerResponse {
   name: string | null;
 }
 
-// Simple in-memory cache (key: movieId, value: { youtubeKey, name, timestamp })
-const trailerCache = new Map<number, { youtubeKey: string | null; name: string | null; cachedAt: number }>();
-const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+// Shared cache, keyed by movie. "No trailer" results are cached for less time.
+const trailerCache = createTmdbCache<TrailerResponse>({
+  namespace: 'trailer',
+  ...config.cache.trailer,
+  isNegative: (value) => value.youtubeKey === null,
+});
+
+const trailerSchema = {
+  params: movieIdParamsSchema,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        youtubeKey: { type: ['string', 'null'] },
+        name: { type: ['string', 'null'] },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
 
 export async function trailerRoutes(fastify: FastifyInstance): Promise<void> {
-  fastify.get<{ Params: TrailerParams; Reply: TrailerResponse | { error: string } }>(
+  fastify.get<{ Params: TrailerParams; Reply: TrailerResponse | ErrorResponse }>(
     '/movies/:id/trailer',
+    { schema: trailerSchema },
     async (request, reply) => {
-      const movieId = parseInt(request.params.id, 10);
-
-      if (isNaN(movieId) || movieId <= 0) {
-        return reply.status(400).send({ error: 'Invalid movie ID' });
-      }
-
-      // Check cache first
-      const cached = trailerCache.get(movieId);
-      if (cached && Date.now() - cached.cachedAt < CACHE_TTL_MS) {
-        return { youtubeKey: cached.youtubeKey, name: cached.name };
-      }
+      const movieId = request.params.id;
 
       try {
-        // Look up TMDB ID from our database
-        const tmdbId = await getTmdbId(movieId);
-
-        if (!tmdbId) {
-          return reply.status(404).send({ error: 'Movie not found' });
-        }
-
-        if (!config.tmdbApiKey) {
-          request.log.warn('TMDB_API_KEY not configured — cannot fetch trailers');
-          return { youtubeKey: null, name: null };
+        const result = await trailerCache.get(movieId, '', async () => {
+          // Look up TMDB ID from our database
+          const tmdbId = await getTmdbId(movieId);
+
+          if (!tmdbId) {
+            return MOVIE_NOT_FOUND;
+          }
+
+          if (!isTmdbConfigured()) {
+            request.log.warn('TMDB_ACCESS_TOKEN not configured — cannot fetch trailers');
+            return null;
+          }
+
+          let results: TMDBVideo[];
+          try {
+            results = await fetchMovieVideos(tmdbId);
+          } catch (error) {
+            request.log.error(error, 'TMDB videos request failed');
+            return null;
+          }
+
+          // Find the best trailer: prefer official YouTube trailers
+          const videos = results.filter(
+            (v) => v.site === 'YouTube'
+          );
+
+          // Priority: Official Trailer > Trailer > Teaser > any video
+          const officialTrailer = videos.find(
+            (v) => v.type === 'Trailer' && v.official
+          );
+          const anyTrailer = videos.find((v) => v.type === 'Trailer');
+          const teaser = videos.find((v) => v.type === 'Teaser');
+          const best = officialTrailer || anyTrailer || teaser || videos[0] || null;
+
+          return {
+            youtubeKey: best?.key ?? null,
+            name: best?.name ?? null,
+          };
+        }, request.log);
+
+        if (result === MOVIE_NOT_FOUND) {
+          return reply.status(404).send(apiError('NOT_FOUND', 'Movie not found', 'id'));
         }
 
-        // Call TMDB videos endpoint
-        const tmdbUrl = `https://api.themoviedb.org/3/movie/${tmdbId}/videos?api_key=${config.tmdbApiKey}&language=en-US`;
-        const response = await fetch(tmdbUrl);
-
-        if (!response.ok) {
-          request.log.error(`TMDB API error: ${response.status}`);
-          return { youtubeKey: null, name: null };
-        }
-
-        const data = (await response.json()) as {
-          results: Array<{
-            key: string;
-            site: string;
-            type: string;
-            official: boolean;
-            name: string;
-          }>;
-        };
-
-        // Find the best trailer: prefer official YouTube trailers
-        const videos = data.results.filter(
-          (v) => v.site === 'YouTube'
-        );
-
-        // Priority: Official Trailer > Trailer > Teaser > any video
-        const officialTrailer = videos.find(
-          (v) => v.type === 'Trailer' && v.official
-        );
-        const anyTrailer = videos.find((v) => v.type === 'Trailer');
-        const teaser = videos.find((v) => v.type === 'Teaser');
-        const best = officialTrailer || anyTrailer || teaser || videos[0] || null;
-
-        const result = {
-          youtubeKey: best?.key ?? null,
-          name: best?.name ?? null,
-        };
-
-        // Cache the result
-        trailerCache.set(movieId, { ...result, cachedAt: Date.now() });
-
-        return result;
+        return result ?? { youtubeKey: null, name: null };
       } catch (error) {
         request.log.error(error, 'Trailer fetch failed');
-        return reply.status(500).send({
-          error: 'Failed to fetch trailer',
-        });
+        return reply.status(500).send(apiError('INTERNAL_ERROR', 'Failed to fetch trailer'));
       }
     }
   );
@@ -0,0 +1,178 @@
+// Shared JSON schemas for request validation and response serialization
+
+import { SCORING_STRATEGIES } from '../services/picker.js';
+import { config } from '../config.js';
+import type { Era } from '../types/index.js';
+
+export const ERAS: Era[] = ['1980-1989', '1990-1999', '2000-2009', '2010-2019', '2020-now'];
+
+export const errorResponseSchema = {
+  type: 'object',
+  required: ['error'],
+  properties: {
+    error: {
+      type: 'object',
+      required: ['code', 'message'],
+      properties: {
+        code: { type: 'string' },
+        message: { type: 'string' },
+        field: { type: 'string' },
+      },
+    },
+  },
+} as const;
+
+// Error responses shared by every route
+export const errorResponses = {
+  '4xx': errorResponseSchema,
+  '5xx': errorResponseSchema,
+} as const;
+
+// Accepts Firebase UIDs or UUIDs
+export const sessionIdSchema = { type: 'string', minLength: 1, maxLength: 255 } as const;
+
+// Anonymous sessions are client-generated UUIDs; Firebase UIDs never match
+export const anonymousSessionIdSchema = {
+  type: 'string',
+  pattern: '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$',
+} as const;
+
+// Largest value of a Postgres INTEGER; IDs above it can't exist and make queries fail
+export const MAX_INTEGER_ID = 2147483647;
+
+export const positiveIntegerSchema = { type: 'integer', minimum: 1, maximum: MAX_INTEGER_ID } as const;
+
+export const seedSchema = {
+  type: ['string', 'integer'],
+  minLength: 1,
+  maxLength: 64,
+} as const;
+
+export const scoringModeSchema = {
+  type: 'string',
+  enum: Object.keys(SCORING_STRATEGIES),
+} as const;
+
+export const movieIdParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: positiveIntegerSchema,
+  },
+} as const;
+
+// BCP 47 language tag; unsupported languages fall back to English
+export const langSchema = { type: 'string', pattern: '^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$' } as const;
+
+// Querystring for routes that only take a response language
+export const langQuerySchema = {
+  type: 'object',
+  properties: {
+    lang: langSchema,
+  },
+} as const;
+
+const languageCodeSchema = { type: 'string', pattern: '^[A-Za-z]{2,3}$' } as const;
+const countryCodeSchema = { type: 'string', pattern: '^[A-Za-z]{2}$' } as const;
+const durationSchema = {
+  type: 'integer',
+  minimum: config.selection.limits.minRuntime,
+  maximum: 600,
+} as const;
+const yearSchema = { type: 'integer', minimum: 1874, maximum: 2100 } as const;
+
+export const pickFiltersSchema = {
+  type: 'object',
+  default: {},
+  properties: {
+    genreIds: { type: 'array', maxItems: 20, items: positiveIntegerSchema },
+    genreMatch: { type: 'string', enum: ['any', 'all'] },
+    excludeGenreIds: { type: 'array', maxItems: 20, items: positiveIntegerSchema },
+    era: { type: 'string', enum: ERAS },
+    yearFrom: yearSchema,
+    yearTo: yearSchema,
+    releasedWithinYears: { type: 'integer', minimum: 1, maximum: 100 },
+    origin: { type: 'array', maxItems: 20, items: languageCodeSchema },
+    countries: { type: 'array', maxItems: 50, items: countryCodeSchema },
+    excludeCountries: { type: 'array', maxItems: 50, items: countryCodeSchema },
+    minDuration: durationSchema,
+    maxDuration: durationSchema,
+    watchlistOnly: { type: 'boolean' },
+    minRating: { type: 'number', minimum: 0, maximum: 10 },
+    minVotes: { type: 'integer', minimum: config.selection.limits.minVoteCount, maximum: 1000000 },
+    allowShorts: { type: 'boolean' },
+  },
+} as const;
+
+export const movieSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    tmdbId: { type: 'integer' },
+    title: { type: 'string' },
+    year: { type: ['integer', 'null'] },
+    runtime: { type: 'integer' },
+    synopsis: { type: 'string' },
+    tagline: { type: 'string' },
+    posterUrl: { type: 'string' },
+    voteAverage: { type: 'number' },
+    genres: { type: 'array', items: { type: 'string' } },
+    countries: { type: 'array', items: { type: 'string' } },
+  },
+} as const;
+
+export const nullableMovieSchema = {
+  ...movieSchema,
+  type: ['object', 'null'],
+} as const;
+
+export const genreSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    name: { type: 'string' },
+  },
+} as const;
+
+export const countrySchema = {
+  type: 'object',
+  properties: {
+    code: { type: 'string' },
+    name: { type: 'string' },
+    movieCount: { type: 'integer' },
+  },
+} as const;
+
+export const pickExplanationSchema = {
+  type: 'object',
+  properties: {
+    matchedFilters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          filter: { type: 'string' },
+          value: { type: 'string' },
+        },
+      },
+    },
+    mode: { type: 'string' },
+    poolSize: { type: 'integer' },
+    weight: { type: 'number' },
+    percentile: { type: 'integer' },
+    firstPickBias: { type: 'boolean' },
+    boost: { type: 'number' },
+    similarity: { type: 'number' },
+    feedbackSignals: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          dimension: { type: 'string' },
+          value: { type: 'string' },
+          score: { type: 'number' },
+        },
+      },
+    },
+  },
+} as const;
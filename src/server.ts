@@ -1,12 +1,22 @@
 import Fastify from 'fastify';
 import { config } from './config.js';
+import { registerErrorHandlers } from './errors.js';
+import { registerClientAuth } from './auth.js';
+import { httpRequestDuration } from './services/metrics.js';
 import { healthRoutes } from './routes/health.js';
 import { genreRoutes } from './routes/genres.js';
+import { countryRoutes } from './routes/countries.js';
+import { eraRoutes } from './routes/eras.js';
 import { pickRoutes } from './routes/pick.js';
 import { candidatesRoutes } from './routes/candidates.js';
+import { feedbackRoutes } from './routes/feedback.js';
+import { sessionRoutes } from './routes/sessions.js';
 import { searchRoutes } from './routes/search.js';
+import { movieRoutes } from './routes/movies.js';
 import { trailerRoutes } from './routes/trailer.js';
 import { synopsisRoutes } from './routes/synopsis.js';
+import { adminRoutes } from './routes/admin.js';
+import { metricsRoutes } from './routes/metrics.js';
 
 export function buildServer() {
   const fastify = Fastify({
@@ -23,27 +33,58 @@ export function buildServer() {
             }
           : undefined,
     },
+    // Behind a load balancer, request.ip is the socket peer unless the proxy is trusted
+    trustProxy: config.trustProxy,
+    ajv: {
+      customOptions: {
+        // Seeds may be strings or integers
+        allowUnionTypes: true,
+      },
+    },
   });
 
-  // Request logging
+  // Uniform error envelope for validation failures, 404s and unhandled errors
+  registerErrorHandlers(fastify);
+
+  // Request logging and latency metrics
   fastify.addHook('onResponse', (request, reply, done) => {
+    httpRequestDuration.observe(
+      {
+        method: request.method,
+        // Route pattern, not the raw URL, to keep label cardinality bounded
+        route: request.routeOptions.url ?? 'unmatched',
+        status: String(reply.statusCode),
+      },
+      reply.elapsedTime / 1000
+    );
     request.log.info(
       {
         method: request.method,
         url: request.url,
         statusCode: reply.statusCode,
         responseTime: reply.elapsedTime,
+        client: request.apiClient?.name,
       },
       'request completed'
     );
     done();
   });
 
-  // CORS for iOS app
-  fastify.addHook('onRequest', (_request, reply, done) => {
-    reply.header('Access-Control-Allow-Origin', '*');
-    reply.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    reply.header('Access-Control-Allow-Headers', 'Content-Type');
+  // CORS for allowlisted browser origins (the iOS app doesn't need it).
+  // Registered before auth so 401 and 429 responses are readable too.
+  const corsOrigins = new Set<string>(config.corsOrigins);
+  fastify.addHook('onRequest', (request, reply, done) => {
+    const origin = request.headers.origin;
+    if (origin && corsOrigins.has(origin)) {
+      reply.header('Access-Control-Allow-Origin', origin);
+      reply.header('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+      reply.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key');
+      reply.header(
+        'Access-Control-Expose-Headers',
+        'RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, Retry-After, Content-Language'
+      );
+    }
+    reply.header('Vary', 'Origin');
     done();
   });
 
@@ -52,14 +93,24 @@ export function buildServer() {
     reply.status(204).send();
   });
 
+  // API keys and per-client rate limits
+  registerClientAuth(fastify);
+
   // Register routes
   fastify.register(healthRoutes);
   fastify.register(genreRoutes);
+  fastify.register(countryRoutes);
+  fastify.register(eraRoutes);
   fastify.register(pickRoutes);
   fastify.register(candidatesRoutes);
+  fastify.register(feedbackRoutes);
+  fastify.register(sessionRoutes);
   fastify.register(searchRoutes);
+  fastify.register(movieRoutes);
   fastify.register(trailerRoutes);
   fastify.register(synopsisRoutes);
+  fastify.register(adminRoutes);
+  fastify.register(metricsRoutes);
 
   return fastify;
 }
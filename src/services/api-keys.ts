@@ -0,0 +1,49 @@
+import { createHash, randomBytes } from 'crypto';
+import { touchApiKey } from '../db/queries.js';
+import { config } from '../config.js';
+import type { ApiClient } from '../types/index.js';
+
+// Keys look like muse_<43 url-safe characters>
+const KEY_PREFIX = 'muse_';
+// Characters of the key kept in the clear for listings
+const VISIBLE_PREFIX_LENGTH = 12;
+// Cached lookups (valid or not) before the cache is reset
+const CACHE_MAX_ENTRIES = 10_000;
+
+// Keys are 256 random bits, so a fast hash is enough to store them safely
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+// Generate a new key. Only the hash and prefix should be stored.
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { key, prefix: key.slice(0, VISIBLE_PREFIX_LENGTH), hash: hashApiKey(key) };
+}
+
+// Recent lookups by key hash, so most requests skip the database.
+// A revoked key keeps working until its entry expires.
+const lookupCache = new Map<string, { client: ApiClient | null; expiresAt: number }>();
+
+// Resolve a presented key to its client app, or null if it's unknown or revoked
+export async function authenticateApiKey(key: string): Promise<ApiClient | null> {
+  const hash = hashApiKey(key);
+  const cached = lookupCache.get(hash);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.client;
+  }
+
+  const row = await touchApiKey(hash);
+  const client = row ? { id: row.id, name: row.name, rateLimit: row.rate_limit } : null;
+
+  if (lookupCache.size >= CACHE_MAX_ENTRIES) {
+    lookupCache.clear();
+  }
+  lookupCache.set(hash, { client, expiresAt: Date.now() + config.apiKeys.cacheTtlMs });
+  return client;
+}
+
+// Clear cache (useful for testing)
+export function clearApiKeyCache(): void {
+  lookupCache.clear();
+}
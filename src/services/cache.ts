@@ -0,0 +1,153 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { config } from '../config.js';
+import { deleteTmdbCacheEntries, getTmdbCacheEntry, setTmdbCacheEntry } from '../db/queries.js';
+import { tmdbCacheLookupsTotal } from './metrics.js';
+
+interface CacheEntry<T> {
+  movieId: number;
+  value: T;
+  expiresAt: number;
+}
+
+// Bounded LRU map: reading an entry marks it as recently used,
+// and the least recently used entry is evicted once full
+export function createLruCache<V>(maxEntries: number) {
+  const entries = new Map<string, V>();
+
+  return {
+    get(key: string): V | undefined {
+      const value = entries.get(key);
+      if (value !== undefined) {
+        entries.delete(key);
+        entries.set(key, value);
+      }
+      return value;
+    },
+    set(key: string, value: V): void {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    delete(key: string): void {
+      entries.delete(key);
+    },
+    deleteWhere(predicate: (value: V) => boolean): void {
+      for (const [key, value] of entries) {
+        if (predicate(value)) entries.delete(key);
+      }
+    },
+  };
+}
+
+export interface TmdbCacheOptions<T> {
+  // Prefix for keys in the shared table, e.g. "trailer"
+  namespace: string;
+  ttlMs: number;
+  // TTL for "nothing found" results
+  negativeTtlMs: number;
+  isNegative: (value: T) => boolean;
+}
+
+// Fetcher result for a movie that isn't in the catalog. Like null it is not
+// cached, but every caller waiting on the same fetch gets it.
+export const MOVIE_NOT_FOUND = Symbol('movie not found');
+
+// Fetches a fresh value. Returns null on a transient failure, which is not cached.
+export type CacheFetcher<T> = () => Promise<T | null | typeof MOVIE_NOT_FOUND>;
+
+// One LRU shared by every namespace so the memory bound is global
+const memory = createLruCache<CacheEntry<unknown>>(config.cache.memoryMaxEntries);
+
+// Refreshes in progress, so concurrent requests for a key fetch only once
+const inFlight = new Map<string, Promise<unknown>>();
+
+// Postgres-backed cache for TMDB responses with an in-memory LRU in front.
+// Expired entries are served for up to staleWhileRevalidateMs while a
+// background refresh replaces them.
+export function createTmdbCache<T>(options: TmdbCacheOptions<T>) {
+  async function load(key: string): Promise<CacheEntry<T> | null> {
+    const cached = memory.get(key) as CacheEntry<T> | undefined;
+    if (cached) return cached;
+
+    const row = await getTmdbCacheEntry(key);
+    if (!row) return null;
+
+    const entry = { movieId: row.movie_id, value: row.value as T, expiresAt: row.expires_at.getTime() };
+    memory.set(key, entry);
+    return entry;
+  }
+
+  async function refresh(
+    key: string,
+    movieId: number,
+    fetcher: CacheFetcher<T>,
+    log: FastifyBaseLogger
+  ): Promise<T | null | typeof MOVIE_NOT_FOUND> {
+    const pending = inFlight.get(key) as Promise<T | null | typeof MOVIE_NOT_FOUND> | undefined;
+    if (pending) return pending;
+
+    const promise = (async () => {
+      const value = await fetcher();
+      if (value === null || value === MOVIE_NOT_FOUND) return value;
+
+      const ttl = options.isNegative(value) ? options.negativeTtlMs : options.ttlMs;
+      const expiresAt = Date.now() + ttl;
+      memory.set(key, { movieId, value, expiresAt });
+      // The value was fetched, so serve it even if Postgres can't store it
+      try {
+        await setTmdbCacheEntry(key, movieId, value, new Date(expiresAt));
+      } catch (error) {
+        log.error(error, `Storing ${key} in the TMDB cache failed`);
+      }
+      return value;
+    })();
+
+    inFlight.set(key, promise);
+    try {
+      return await promise;
+    } finally {
+      inFlight.delete(key);
+    }
+  }
+
+  return {
+    async get(
+      movieId: number,
+      variant: string,
+      fetcher: CacheFetcher<T>,
+      log: FastifyBaseLogger
+    ): Promise<T | null | typeof MOVIE_NOT_FOUND> {
+      const key = `${options.namespace}:${movieId}${variant ? `:${variant}` : ''}`;
+      const entry = await load(key);
+      const now = Date.now();
+
+      if (entry && now < entry.expiresAt) {
+        tmdbCacheLookupsTotal.inc({ cache: options.namespace, result: 'hit' });
+        return entry.value;
+      }
+
+      if (entry && now < entry.expiresAt + config.cache.staleWhileRevalidateMs) {
+        tmdbCacheLookupsTotal.inc({ cache: options.namespace, result: 'stale' });
+        refresh(key, movieId, fetcher, log).catch((error) => {
+          log.error(error, `Background refresh of ${key} failed`);
+        });
+        return entry.value;
+      }
+
+      tmdbCacheLookupsTotal.inc({ cache: options.namespace, result: 'miss' });
+
+      // Fall back to a long-expired entry if TMDB is unavailable
+      const value = await refresh(key, movieId, fetcher, log);
+      return value ?? entry?.value ?? null;
+    },
+  };
+}
+
+// Drop every cached TMDB response for a movie, in memory and in Postgres.
+// Other instances keep their in-memory copy until it expires.
+export async function invalidateMovieCache(movieId: number): Promise<number> {
+  memory.deleteWhere((entry) => entry.movieId === movieId);
+  return deleteTmdbCacheEntries(movieId);
+}
@@ -0,0 +1,21 @@
+export type CsvValue = string | number | boolean | null;
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Prefix text that a spreadsheet would treat as a formula with a quote,
+// for files users download and open. Not needed for machine-read CSV.
+export function escapeFormula(text: string): string {
+  return FORMULA_PREFIX.test(text) ? `'${text}` : text;
+}
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+export function toCsvLine(values: CsvValue[]): string {
+  return values
+    .map((value) => {
+      if (value === null) return '';
+      const text = String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',');
+}
@@ -0,0 +1,62 @@
+import type {
+  CurationAction,
+  CurationChanges,
+  CurationLogEntry,
+  CurationLogRow,
+  MovieCuration,
+  MovieCurationRow,
+} from '../types/index.js';
+import { curateMovie, getMovieCuration } from '../db/queries.js';
+
+export function toCuration(row: MovieCurationRow): MovieCuration {
+  return {
+    movieId: row.movie_id,
+    hidden: row.hidden,
+    boost: row.boost,
+    overrides: {
+      title: row.title_override,
+      synopsis: row.synopsis_override,
+      tagline: row.tagline_override,
+      posterPath: row.poster_path_override,
+    },
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+export function toCurationLogEntry(row: CurationLogRow): CurationLogEntry {
+  return {
+    id: row.id,
+    movieId: row.movie_id,
+    action: row.action,
+    changes: row.changes,
+    reason: row.reason,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+// Curation of a movie nobody has curated yet
+function defaultCuration(movieId: number): MovieCuration {
+  return {
+    movieId,
+    hidden: false,
+    boost: 1,
+    overrides: { title: null, synopsis: null, tagline: null, posterPath: null },
+    updatedAt: null,
+  };
+}
+
+export async function getCuration(movieId: number): Promise<MovieCuration> {
+  const row = await getMovieCuration(movieId);
+  return row ? toCuration(row) : defaultCuration(movieId);
+}
+
+// Apply and log a curation action. Rejects with a foreign key
+// violation (23503) when the movie does not exist.
+export async function applyCuration(
+  movieId: number,
+  action: CurationAction,
+  changes: CurationChanges,
+  reason?: string
+): Promise<MovieCuration> {
+  return toCuration(await curateMovie(movieId, action, changes, reason ?? null));
+}
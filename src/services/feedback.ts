@@ -0,0 +1,122 @@
+import type { FeedbackSignal, FeedbackType, MovieRow } from '../types/index.js';
+import { config } from '../config.js';
+import { getMoviesGenres, getSessionFeedback } from '../db/queries.js';
+
+// How much each kind of feedback counts toward a taste signal.
+// "seen" says nothing about taste, it only excludes the movie.
+const FEEDBACK_SIGNAL: Record<FeedbackType, number> = {
+  loved: 1,
+  not_interested: -1,
+  skip: -0.5,
+  seen: 0,
+};
+
+// Accumulated taste signals for a session, keyed by movie attribute
+export interface SessionPreferences {
+  genres: Map<string, number>;
+  decades: Map<number, number>;
+  languages: Map<string, number>;
+}
+
+function addSignal<K>(map: Map<K, number>, key: K, signal: number): void {
+  map.set(key, (map.get(key) || 0) + signal);
+}
+
+// Squash a raw signal sum into (-1, 1) so a handful of events can't dominate
+function normalize(signal: number): number {
+  return signal / (Math.abs(signal) + 2);
+}
+
+export function decadeOf(year: number): number {
+  return Math.floor(year / 10) * 10;
+}
+
+// Build taste signals from a session's feedback history
+export async function getSessionPreferences(sessionId: string): Promise<SessionPreferences> {
+  const preferences: SessionPreferences = {
+    genres: new Map(),
+    decades: new Map(),
+    languages: new Map(),
+  };
+
+  const feedback = await getSessionFeedback(sessionId);
+  const rated = feedback.filter((row) => FEEDBACK_SIGNAL[row.feedback] !== 0);
+  if (rated.length === 0) {
+    return preferences;
+  }
+
+  const genresMap = await getMoviesGenres(rated.map((row) => row.movie_id));
+
+  for (const row of rated) {
+    const signal = FEEDBACK_SIGNAL[row.feedback];
+
+    for (const genre of genresMap.get(row.movie_id) || []) {
+      addSignal(preferences.genres, genre, signal);
+    }
+    if (row.year) {
+      addSignal(preferences.decades, decadeOf(row.year), signal);
+    }
+    if (row.original_language) {
+      addSignal(preferences.languages, row.original_language, signal);
+    }
+  }
+
+  return preferences;
+}
+
+// Taste signals from the session's feedback that apply to a movie,
+// each normalized to (-1, 1). Zero signals are left out.
+export function feedbackSignals(
+  movie: MovieRow,
+  genres: string[],
+  preferences: SessionPreferences
+): FeedbackSignal[] {
+  const signals: FeedbackSignal[] = [];
+
+  for (const genre of genres) {
+    const signal = preferences.genres.get(genre);
+    if (signal) {
+      signals.push({ dimension: 'genre', value: genre, score: normalize(signal) });
+    }
+  }
+
+  if (movie.year) {
+    const decade = decadeOf(movie.year);
+    const signal = preferences.decades.get(decade);
+    if (signal) {
+      signals.push({ dimension: 'decade', value: `${decade}s`, score: normalize(signal) });
+    }
+  }
+
+  const languageSignal = preferences.languages.get(movie.original_language);
+  if (languageSignal) {
+    signals.push({
+      dimension: 'language',
+      value: movie.original_language,
+      score: normalize(languageSignal),
+    });
+  }
+
+  return signals;
+}
+
+// Weight multiplier for a movie given the session's taste signals.
+// Genre signals are averaged so multi-genre movies aren't over-counted.
+// Returns 1 when there is no relevant feedback.
+export function feedbackMultiplier(
+  movie: MovieRow,
+  genres: string[],
+  preferences: SessionPreferences
+): number {
+  const signals = feedbackSignals(movie, genres, preferences);
+
+  const genreSignals = signals.filter((s) => s.dimension === 'genre');
+  const genreScore = genreSignals.length > 0
+    ? genreSignals.reduce((sum, s) => sum + s.score, 0) / genreSignals.length
+    : 0;
+  const otherScore = signals
+    .filter((s) => s.dimension !== 'genre')
+    .reduce((sum, s) => sum + s.score, 0);
+
+  return Math.exp(config.selection.feedbackStrength * (genreScore + otherScore));
+}
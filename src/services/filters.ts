@@ -0,0 +1,41 @@
+import type { ErrorResponse, PickFilters } from '../types/index.js';
+import { apiError } from '../errors.js';
+import { config } from '../config.js';
+
+// Checks that span several filter fields, which JSON schema can't express.
+// Returns an error envelope, or null when the filters are consistent.
+export function validateFilterRanges(filters: PickFilters): ErrorResponse | null {
+  if (
+    filters.minDuration !== undefined &&
+    filters.maxDuration !== undefined &&
+    filters.minDuration > filters.maxDuration
+  ) {
+    return apiError('VALIDATION_ERROR', 'minDuration must not exceed maxDuration.', 'filters.minDuration');
+  }
+
+  // The schema allows short runtimes, but only allowShorts (or the watchlist,
+  // which skips the quality floor) lowers the runtime floor to match
+  const { minRuntime } = config.selection;
+  if (
+    filters.maxDuration !== undefined &&
+    filters.maxDuration < minRuntime &&
+    !filters.allowShorts &&
+    !filters.watchlistOnly
+  ) {
+    return apiError(
+      'VALIDATION_ERROR',
+      `maxDuration below ${minRuntime} requires allowShorts.`,
+      'filters.maxDuration'
+    );
+  }
+
+  if (
+    filters.yearFrom !== undefined &&
+    filters.yearTo !== undefined &&
+    filters.yearFrom > filters.yearTo
+  ) {
+    return apiError('VALIDATION_ERROR', 'yearFrom must not exceed yearTo.', 'filters.yearFrom');
+  }
+
+  return null;
+}
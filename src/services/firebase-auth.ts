@@ -0,0 +1,84 @@
+import { createPublicKey, verify, type JsonWebKey, type KeyObject } from 'crypto';
+import { config } from '../config.js';
+
+interface IdTokenHeader {
+  alg?: string;
+  kid?: string;
+}
+
+interface IdTokenClaims {
+  aud?: string;
+  iss?: string;
+  // The user's UID
+  sub?: string;
+  exp?: number;
+  iat?: number;
+}
+
+// Tolerated clock difference with Google, in seconds
+const CLOCK_SKEW_SECONDS = 60;
+// Used when Google's response has no max-age
+const DEFAULT_KEYS_TTL_MS = 60 * 60 * 1000;
+
+// Google's current signing keys by key ID, refreshed when their max-age runs out
+let signingKeys: { keys: Map<string, KeyObject>; expiresAt: number } | null = null;
+
+async function getSigningKeys(): Promise<Map<string, KeyObject>> {
+  if (signingKeys && signingKeys.expiresAt > Date.now()) {
+    return signingKeys.keys;
+  }
+
+  const response = await fetch(config.firebase.jwksUrl, {
+    signal: AbortSignal.timeout(config.firebase.timeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(`Fetching Firebase signing keys failed: ${response.status}`);
+  }
+
+  const body = (await response.json()) as { keys: (JsonWebKey & { kid: string })[] };
+  const keys = new Map(body.keys.map((jwk) => [jwk.kid, createPublicKey({ key: jwk, format: 'jwk' })]));
+  const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') ?? '');
+  signingKeys = {
+    keys,
+    expiresAt: Date.now() + (maxAge ? parseInt(maxAge[1], 10) * 1000 : DEFAULT_KEYS_TTL_MS),
+  };
+  return keys;
+}
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Verify a Firebase ID token and return the signed-in user's UID. Null when
+// the token is malformed, badly signed, expired, issued for another project,
+// or FIREBASE_PROJECT_ID is unset. Throws when Google's keys can't be fetched.
+export async function verifyFirebaseIdToken(token: string): Promise<string | null> {
+  const { projectId } = config.firebase;
+  const parts = token.split('.');
+  if (!projectId || parts.length !== 3) return null;
+
+  const [headerPart, claimsPart, signaturePart] = parts;
+  const header = decodeSegment<IdTokenHeader>(headerPart);
+  const claims = decodeSegment<IdTokenClaims>(claimsPart);
+  if (header?.alg !== 'RS256' || !header.kid || !claims) return null;
+
+  const key = (await getSigningKeys()).get(header.kid);
+  if (!key) return null;
+
+  const signed = Buffer.from(`${headerPart}.${claimsPart}`);
+  if (!verify('RSA-SHA256', signed, key, Buffer.from(signaturePart, 'base64url'))) {
+    return null;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const { aud, iss, sub, exp, iat } = claims;
+  if (aud !== projectId || iss !== `https://securetoken.google.com/${projectId}`) return null;
+  if (typeof exp !== 'number' || exp <= now - CLOCK_SKEW_SECONDS) return null;
+  if (typeof iat !== 'number' || iat >= now + CLOCK_SKEW_SECONDS) return null;
+
+  return typeof sub === 'string' && sub !== '' ? sub : null;
+}
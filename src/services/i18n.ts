@@ -0,0 +1,61 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+
+export const DEFAULT_LOCALE = 'en';
+
+// Locales with stored translations, mapped to the TMDB locale they are fetched in
+export const TMDB_LOCALES: Record<string, string> = {
+  en: 'en-US',
+  de: 'de-DE',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  it: 'it-IT',
+  ja: 'ja-JP',
+  pt: 'pt-BR',
+  tr: 'tr-TR',
+};
+
+export const SUPPORTED_LOCALES = Object.keys(TMDB_LOCALES);
+
+// Map a language tag ("pt-BR", "fr") to a supported locale, or null
+export function toSupportedLocale(tag: string): string | null {
+  const language = tag.trim().split('-')[0].toLowerCase();
+  return language in TMDB_LOCALES ? language : null;
+}
+
+// First supported language in an Accept-Language header, by quality
+export function parseAcceptLanguage(header: string): string | null {
+  const ranges = header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.find((p) => p.trim().startsWith('q='));
+      return { tag, quality: q ? parseFloat(q.trim().slice(2)) : 1, index };
+    })
+    .filter((range) => range.tag && range.tag !== '*' && range.quality > 0)
+    // Stable on ties, so header order wins between equal qualities
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const range of ranges) {
+    const locale = toSupportedLocale(range.tag);
+    if (locale) return locale;
+  }
+  return null;
+}
+
+// Locale for a request: the lang query parameter wins over Accept-Language.
+// Sets Content-Language, and Vary since the response depends on the header.
+export function resolveRequestLocale(request: FastifyRequest, reply: FastifyReply): string {
+  const { lang } = (request.query ?? {}) as { lang?: string };
+  const acceptLanguage = request.headers['accept-language'];
+
+  const locale =
+    (lang && toSupportedLocale(lang)) ||
+    (acceptLanguage && parseAcceptLanguage(acceptLanguage)) ||
+    DEFAULT_LOCALE;
+
+  reply.header('Content-Language', locale);
+  // Keep Vary: Origin from the CORS hook
+  const vary = reply.getHeader('Vary');
+  reply.header('Vary', vary ? `${vary}, Accept-Language` : 'Accept-Language');
+  return locale;
+}
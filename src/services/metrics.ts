@@ -0,0 +1,155 @@
+// Minimal Prometheus registry rendered in the text exposition format
+// (https://prometheus.io/docs/instrumenting/exposition_formats/).
+// Values are per process; Prometheus aggregates across instances.
+
+type Labels = Record<string, string>;
+
+interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// Series key that doesn't depend on label order
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function register(metric: Metric): void {
+  if (registry.some((m) => m.name === metric.name)) {
+    throw new Error(`Metric ${metric.name} is already registered`);
+  }
+  registry.push(metric);
+}
+
+export function createCounter(name: string, help: string) {
+  const series = new Map<string, Sample>();
+
+  register({
+    name,
+    help,
+    type: 'counter',
+    render: () => [...series.values()].map((s) => `${name}${formatLabels(s.labels)} ${s.value}`),
+  });
+
+  return {
+    inc(labels: Labels = {}, value = 1): void {
+      const key = seriesKey(labels);
+      const sample = series.get(key);
+      if (sample) {
+        sample.value += value;
+      } else {
+        series.set(key, { labels, value });
+      }
+    },
+  };
+}
+
+// Gauges are read when metrics are scraped
+export function createGauge(name: string, help: string, collect: () => Sample[]): void {
+  register({
+    name,
+    help,
+    type: 'gauge',
+    render: () => collect().map((s) => `${name}${formatLabels(s.labels)} ${s.value}`),
+  });
+}
+
+export function createHistogram(name: string, help: string, buckets: number[]) {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  register({
+    name,
+    help,
+    type: 'histogram',
+    render: () =>
+      [...series.values()].flatMap((s) => [
+        ...buckets.map(
+          (bound, i) => `${name}_bucket${formatLabels({ ...s.labels, le: String(bound) })} ${s.counts[i]}`
+        ),
+        `${name}_bucket${formatLabels({ ...s.labels, le: '+Inf' })} ${s.count}`,
+        `${name}_sum${formatLabels(s.labels)} ${s.sum}`,
+        `${name}_count${formatLabels(s.labels)} ${s.count}`,
+      ]),
+  });
+
+  return {
+    observe(labels: Labels, value: number): void {
+      const key = seriesKey(labels);
+      const s = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      series.set(key, s);
+      // Buckets are cumulative
+      buckets.forEach((bound, i) => {
+        if (value <= bound) s.counts[i]++;
+      });
+      s.sum += value;
+      s.count++;
+    },
+  };
+}
+
+export function renderMetrics(): string {
+  const lines = registry.flatMap((metric) => [
+    `# HELP ${metric.name} ${metric.help}`,
+    `# TYPE ${metric.name} ${metric.type}`,
+    ...metric.render(),
+  ]);
+  return `${lines.join('\n')}\n`;
+}
+
+// ============================================================================
+// Application metrics
+// ============================================================================
+
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export const httpRequestDuration = createHistogram(
+  'muse_http_request_duration_seconds',
+  'HTTP request latency by method, route and status code.',
+  LATENCY_BUCKETS
+);
+
+export const picksTotal = createCounter(
+  'muse_picks_total',
+  'Pick requests by outcome: picked, or empty when no movie matched the filters.'
+);
+
+// Candidate queries return at most MAX_CANDIDATES (1000) movies
+export const pickPoolSize = createHistogram(
+  'muse_pick_candidate_pool_size',
+  'Candidates that passed the filters for each pick.',
+  [0, 1, 5, 10, 25, 50, 100, 250, 500, 1000]
+);
+
+export const tmdbRequestsTotal = createCounter(
+  'muse_tmdb_requests_total',
+  'TMDB request attempts by endpoint and outcome (HTTP status, error or circuit_open).'
+);
+
+export const tmdbRequestDuration = createHistogram(
+  'muse_tmdb_request_duration_seconds',
+  'TMDB request attempt latency by endpoint.',
+  LATENCY_BUCKETS
+);
+
+export const tmdbCacheLookupsTotal = createCounter(
+  'muse_tmdb_cache_lookups_total',
+  'TMDB cache lookups by cache and result: hit, stale (served while refreshing) or miss.'
+);
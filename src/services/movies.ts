@@ -1,19 +1,130 @@
-import type { Genre } from '../types/index.js';
-import { getAllGenres } from '../db/queries.js';
+import type {
+  Country,
+  EraOption,
+  Genre,
+  Movie,
+  MovieCurationRow,
+  MovieRow,
+  MovieTranslationRow,
+} from '../types/index.js';
+import {
+  getAllCountries,
+  getAllGenres,
+  getDecadeCounts,
+  getMoviesCountries,
+  getMoviesCuration,
+  getMoviesGenres,
+  getMoviesTranslations,
+} from '../db/queries.js';
+import { config } from '../config.js';
+import { DEFAULT_LOCALE } from './i18n.js';
 
-// In-memory cache for genres (refreshed on server restart)
-let genresCache: Genre[] | null = null;
+// In-memory cache for genres by locale (refreshed on server restart)
+const genresCache = new Map<string, Genre[]>();
 
-export async function getGenres(): Promise<Genre[]> {
-  if (genresCache) {
-    return genresCache;
+// In-memory cache for countries (refreshed on server restart)
+let countriesCache: Country[] | null = null;
+
+// In-memory cache for decades (refreshed on server restart)
+let erasCache: EraOption[] | null = null;
+
+export async function getGenres(locale = DEFAULT_LOCALE): Promise<Genre[]> {
+  const cached = genresCache.get(locale);
+  if (cached) {
+    return cached;
+  }
+
+  const genres = await getAllGenres(locale);
+  genresCache.set(locale, genres);
+  return genres;
+}
+
+export async function getCountries(): Promise<Country[]> {
+  if (countriesCache) {
+    return countriesCache;
+  }
+
+  countriesCache = await getAllCountries();
+  return countriesCache;
+}
+
+// Decades present in the catalog, with pickable movie counts
+export async function getEras(): Promise<EraOption[]> {
+  if (erasCache) {
+    return erasCache;
   }
 
-  genresCache = await getAllGenres();
-  return genresCache;
+  const decades = await getDecadeCounts();
+  erasCache = decades.map(({ decade, movieCount }) => ({
+    decade,
+    label: `${decade}s`,
+    yearFrom: decade,
+    yearTo: decade + 9,
+    movieCount,
+  }));
+  return erasCache;
 }
 
 // Clear cache (useful for testing)
 export function clearGenresCache(): void {
-  genresCache = null;
+  genresCache.clear();
+}
+
+export function clearCountriesCache(): void {
+  countriesCache = null;
+}
+
+export function clearErasCache(): void {
+  erasCache = null;
+}
+
+// Convert database row to API response. Admin overrides win in every
+// language; otherwise translated fields fall back to English one at a time.
+export function toMovie(
+  row: MovieRow,
+  genres: string[],
+  countries: string[],
+  translation?: MovieTranslationRow,
+  curation?: MovieCurationRow
+): Movie {
+  const posterPath = curation?.poster_path_override || row.poster_path;
+  return {
+    id: row.id,
+    tmdbId: row.tmdb_id,
+    title: curation?.title_override || translation?.title || row.title,
+    year: row.year,
+    runtime: row.runtime || 0,
+    synopsis: curation?.synopsis_override || translation?.synopsis || row.synopsis || '',
+    tagline: curation?.tagline_override || translation?.tagline || row.tagline || '',
+    posterUrl: posterPath
+      ? `${config.tmdbImageBaseUrl}${posterPath}`
+      : '',
+    voteAverage: Number(row.vote_average),
+    genres,
+    countries,
+  };
+}
+
+// Convert rows to API responses in a locale, loading genres, countries,
+// translations and curation in one query each
+export async function hydrateMovies(rows: MovieRow[], locale = DEFAULT_LOCALE): Promise<Movie[]> {
+  const movieIds = rows.map((m) => m.id);
+  const [genresMap, countriesMap, translationsMap, curationMap] = await Promise.all([
+    getMoviesGenres(movieIds, locale),
+    getMoviesCountries(movieIds),
+    locale === DEFAULT_LOCALE
+      ? new Map<number, MovieTranslationRow>()
+      : getMoviesTranslations(movieIds, locale),
+    getMoviesCuration(movieIds),
+  ]);
+
+  return rows.map((row) =>
+    toMovie(
+      row,
+      genresMap.get(row.id) || [],
+      countriesMap.get(row.id) || [],
+      translationsMap.get(row.id),
+      curationMap.get(row.id)
+    )
+  );
 }
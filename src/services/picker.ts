@@ -1,30 +1,134 @@
-import type { Movie, MovieRow, PickFilters, WeightedCandidate } from '../types/index.js';
+import type {
+  Genre,
+  MatchedFilter,
+  Movie,
+  MovieRow,
+  PickExplanation,
+  PickFilters,
+  ScoringMode,
+  WeightedCandidate,
+} from '../types/index.js';
 import { config } from '../config.js';
+import { getGenres, hydrateMovies } from './movies.js';
+import { createRandom, type Random } from './random.js';
+import { pickPoolSize, picksTotal } from './metrics.js';
+import {
+  feedbackMultiplier,
+  feedbackSignals,
+  getSessionPreferences,
+  type SessionPreferences,
+} from './feedback.js';
 import {
   getCandidateMovies,
+  getMoviesCuration,
   getMoviesGenres,
   getRecentPickMovieIds,
+  getSimilarCandidateMovies,
+  MAX_CANDIDATES,
   isFirstPickForSession,
   recordPick,
 } from '../db/queries.js';
 
-// Calculate weight for a movie based on rating and popularity
-function calculateWeight(movie: MovieRow): number {
-  const ratingScore = movie.vote_average / 10;
-  const popularityScore = Math.log10(movie.vote_count + 1);
-  return ratingScore * popularityScore;
+// Catalog context a scoring strategy can compare a movie against
+export interface ScoringContext {
+  // Mean vote average across the candidate pool
+  meanVoteAverage: number;
+  currentYear: number;
+}
+
+// A scoring strategy turns a movie into a base selection weight (> 0)
+export interface ScoringStrategy {
+  score(movie: MovieRow, context: ScoringContext): number;
+}
+
+// Rating scaled by log popularity (the original formula)
+const classicScoring: ScoringStrategy = {
+  score(movie) {
+    const ratingScore = movie.vote_average / 10;
+    const popularityScore = Math.log10(movie.vote_count + 1);
+    return ratingScore * popularityScore;
+  },
+};
+
+// IMDb-style weighted rating: few votes pull a rating toward the pool mean.
+// Each point of weighted rating above the mean multiplies the weight by e.
+const bayesianScoring: ScoringStrategy = {
+  score(movie, context) {
+    const votes = movie.vote_count;
+    const prior = config.selection.scoring.bayesianPriorVotes;
+    const weightedRating =
+      (votes / (votes + prior)) * Number(movie.vote_average) +
+      (prior / (votes + prior)) * context.meanVoteAverage;
+    return Math.exp(weightedRating - context.meanVoteAverage);
+  },
+};
+
+// Classic score boosted for recent releases, decaying with age
+const recentScoring: ScoringStrategy = {
+  score(movie, context) {
+    const { recencyBoost, recencyHalfLifeYears } = config.selection.scoring;
+    const age = Math.max(0, context.currentYear - (movie.year || 0));
+    const boost = 1 + recencyBoost * Math.pow(0.5, age / recencyHalfLifeYears);
+    return classicScoring.score(movie, context) * boost;
+  },
+};
+
+// Favour well-rated movies that fewer people have seen
+const hiddenGemsScoring: ScoringStrategy = {
+  score(movie) {
+    const ratingScore = movie.vote_average / 10;
+    const popularityScore = Math.log10(movie.vote_count + 1);
+    return (ratingScore * ratingScore) / Math.max(popularityScore, 1);
+  },
+};
+
+export const SCORING_STRATEGIES: Record<ScoringMode, ScoringStrategy> = {
+  classic: classicScoring,
+  bayesian: bayesianScoring,
+  recent: recentScoring,
+  hidden_gems: hiddenGemsScoring,
+};
+
+function buildScoringContext(candidates: MovieRow[]): ScoringContext {
+  const total = candidates.reduce((sum, m) => sum + Number(m.vote_average), 0);
+  return {
+    meanVoteAverage: candidates.length > 0 ? total / candidates.length : 0,
+    currentYear: new Date().getFullYear(),
+  };
+}
+
+// Calculate weight for a movie using the chosen strategy,
+// reshaped by the session's feedback on similar genres, eras and languages
+// and by any editorial boost
+function calculateWeight(
+  movie: MovieRow,
+  genres: string[],
+  strategy: ScoringStrategy,
+  context: ScoringContext,
+  preferences: SessionPreferences,
+  boost: number
+): number {
+  return strategy.score(movie, context) * feedbackMultiplier(movie, genres, preferences) * boost;
+}
+
+// Pick weight multiplier toward a liked movie's neighbourhood
+function likeMultiplier(similarity: number): number {
+  return Math.exp(config.similar.likeStrength * similarity);
 }
 
 // Weighted random selection from candidates
-function weightedRandomSelect(candidates: WeightedCandidate[]): WeightedCandidate | null {
+function weightedRandomSelect(
+  candidates: WeightedCandidate[],
+  random: Random
+): WeightedCandidate | null {
   if (candidates.length === 0) return null;
 
   const totalWeight = candidates.reduce((sum, c) => sum + c.weight, 0);
-  let random = Math.random() * totalWeight;
+  let remaining = random() * totalWeight;
 
   for (const candidate of candidates) {
-    random -= candidate.weight;
-    if (random <= 0) {
+    remaining -= candidate.weight;
+    if (remaining <= 0) {
       return candidate;
     }
   }
@@ -33,52 +137,141 @@ function weightedRandomSelect(candidates: WeightedCandidate[]): WeightedCandidat
   return candidates[candidates.length - 1];
 }
 
-// Convert database row to API response
-function toMovie(row: MovieRow, genres: string[]): Movie {
-  return {
-    id: row.id,
-    tmdbId: row.tmdb_id,
-    title: row.title,
-    year: row.year,
-    runtime: row.runtime || 0,
-    synopsis: row.synopsis || '',
-    posterUrl: row.poster_path
-      ? `${config.tmdbImageBaseUrl}${row.poster_path}`
-      : '',
-    voteAverage: Number(row.vote_average),
-    genres,
-  };
+// Describe how the picked movie satisfied each requested filter
+function describeMatchedFilters(
+  filters: PickFilters,
+  movie: Movie,
+  row: MovieRow,
+  allGenres: Genre[]
+): MatchedFilter[] {
+  const matched: MatchedFilter[] = [];
+
+  if (filters.genreIds && filters.genreIds.length > 0) {
+    const requested = allGenres.filter((g) => filters.genreIds!.includes(g.id)).map((g) => g.name);
+    const genres = movie.genres.filter((g) => requested.includes(g));
+    matched.push({ filter: 'genreIds', value: genres.join(', ') });
+  }
+  if (filters.excludeGenreIds && filters.excludeGenreIds.length > 0) {
+    matched.push({ filter: 'excludeGenreIds', value: movie.genres.join(', ') });
+  }
+  if (filters.era) {
+    matched.push({ filter: 'era', value: String(movie.year) });
+  }
+  if (filters.yearFrom) {
+    matched.push({ filter: 'yearFrom', value: String(movie.year) });
+  }
+  if (filters.yearTo) {
+    matched.push({ filter: 'yearTo', value: String(movie.year) });
+  }
+  if (filters.releasedWithinYears) {
+    matched.push({ filter: 'releasedWithinYears', value: String(movie.year) });
+  }
+  if (filters.origin && filters.origin.length > 0) {
+    matched.push({ filter: 'origin', value: row.original_language });
+  }
+  if (filters.countries && filters.countries.length > 0) {
+    const requested = filters.countries.map((c) => c.toUpperCase());
+    const countries = movie.countries.filter((c) => requested.includes(c));
+    matched.push({ filter: 'countries', value: countries.join(', ') });
+  }
+  if (filters.excludeCountries && filters.excludeCountries.length > 0) {
+    matched.push({ filter: 'excludeCountries', value: movie.countries.join(', ') });
+  }
+  if (filters.minDuration) {
+    matched.push({ filter: 'minDuration', value: `${movie.runtime} min` });
+  }
+  if (filters.maxDuration) {
+    matched.push({ filter: 'maxDuration', value: `${movie.runtime} min` });
+  }
+  if (filters.watchlistOnly) {
+    matched.push({ filter: 'watchlistOnly', value: 'on watchlist' });
+  }
+  if (filters.minRating !== undefined) {
+    matched.push({ filter: 'minRating', value: String(movie.voteAverage) });
+  }
+  if (filters.minVotes !== undefined) {
+    matched.push({ filter: 'minVotes', value: `${row.vote_count} votes` });
+  }
+  if (filters.allowShorts) {
+    matched.push({ filter: 'allowShorts', value: `${movie.runtime} min` });
+  }
+
+  return matched;
 }
 
-// Main pick function
+export interface PickOptions {
+  seed: string;
+  mode: ScoringMode;
+  // Language of the returned movie and explanation
+  locale: string;
+  // Movie to bias the pick toward; it is never picked itself
+  likeMovieId?: number;
+}
+
+export interface PickResult {
+  movie: Movie;
+  explanation: PickExplanation;
+}
+
+// Main pick function. The same seed, filters and session history
+// always produce the same pick.
 export async function pickMovie(
   sessionId: string,
-  filters: PickFilters
-): Promise<Movie | null> {
+  filters: PickFilters,
+  options: PickOptions
+): Promise<PickResult | null> {
   // Step 1: Get recently picked movie IDs to exclude
   const recentPickIds = await getRecentPickMovieIds(sessionId);
+  const { likeMovieId } = options;
 
-  // Step 2: Fetch candidate movies
-  const candidates = await getCandidateMovies(filters, recentPickIds);
+  // Step 2: Fetch candidate movies (seen / not interested titles are excluded).
+  // With a liked movie, the pool is the movies most similar to it.
+  const candidates: (MovieRow & { similarity?: number })[] =
+    likeMovieId === undefined
+      ? await getCandidateMovies(filters, recentPickIds, sessionId, options.seed)
+      : await getSimilarCandidateMovies(likeMovieId, filters, recentPickIds, sessionId, MAX_CANDIDATES);
+  pickPoolSize.observe({}, candidates.length);
 
   if (candidates.length === 0) {
+    picksTotal.inc({ outcome: 'empty' });
     return null;
   }
 
-  // Step 3: Get genres for all candidates
+  // Step 3: Get genres and pin boosts for all candidates and the session's taste signals
   const movieIds = candidates.map((m) => m.id);
-  const genresMap = await getMoviesGenres(movieIds);
+  const [genresMap, curationMap, preferences] = await Promise.all([
+    getMoviesGenres(movieIds),
+    getMoviesCuration(movieIds),
+    getSessionPreferences(sessionId),
+  ]);
 
   // Step 4: Calculate weights
-  let weightedCandidates: WeightedCandidate[] = candidates.map((movie) => ({
-    movie,
-    weight: calculateWeight(movie),
-    genres: genresMap.get(movie.id) || [],
-  }));
+  const strategy = SCORING_STRATEGIES[options.mode];
+  const context = buildScoringContext(candidates);
+  let weightedCandidates: WeightedCandidate[] = candidates.map((movie) => {
+    const genres = genresMap.get(movie.id) || [];
+    const weight = calculateWeight(
+      movie,
+      genres,
+      strategy,
+      context,
+      preferences,
+      curationMap.get(movie.id)?.boost ?? 1
+    );
+    return {
+      movie,
+      weight: movie.similarity === undefined ? weight : weight * likeMultiplier(movie.similarity),
+      genres,
+      similarity: movie.similarity,
+    };
+  });
+
+  const poolWeights = weightedCandidates.map((c) => c.weight);
 
   // Step 5: Apply first-pick bias
   const isFirstPick = await isFirstPickForSession(sessionId);
-  if (isFirstPick && weightedCandidates.length > 10) {
+  const firstPickBias = isFirstPick && weightedCandidates.length > 10;
+  if (firstPickBias) {
     // Sort by weight descending
     weightedCandidates.sort((a, b) => b.weight - a.weight);
 
@@ -90,15 +283,41 @@ export async function pickMovie(
   }
 
   // Step 6: Select using weighted random
-  const selected = weightedRandomSelect(weightedCandidates);
+  const selected = weightedRandomSelect(weightedCandidates, createRandom(options.seed));
 
   if (!selected) {
+    picksTotal.inc({ outcome: 'empty' });
     return null;
   }
 
   // Step 7: Record the pick
   await recordPick(sessionId, selected.movie.id, filters);
+  picksTotal.inc({ outcome: 'picked' });
+
+  // Step 8: Return the localized movie and why it was picked
+  const [[movie], allGenres] = await Promise.all([
+    hydrateMovies([selected.movie], options.locale),
+    getGenres(options.locale),
+  ]);
+  const atOrBelow = poolWeights.filter((w) => w <= selected.weight).length;
 
-  // Step 8: Return the movie
-  return toMovie(selected.movie, selected.genres);
+  return {
+    movie,
+    explanation: {
+      matchedFilters: describeMatchedFilters(
+        filters,
+        movie,
+        selected.movie,
+        allGenres
+      ),
+      mode: options.mode,
+      poolSize: candidates.length,
+      weight: selected.weight,
+      percentile: Math.round((atOrBelow / poolWeights.length) * 100),
+      firstPickBias,
+      boost: curationMap.get(selected.movie.id)?.boost ?? 1,
+      ...(selected.similarity === undefined ? {} : { similarity: Math.round(selected.similarity * 1000) / 1000 }),
+      feedbackSignals: feedbackSignals(selected.movie, selected.genres, preferences),
+    },
+  };
 }
@@ -0,0 +1,57 @@
+import { randomBytes } from 'crypto';
+
+// A source of uniformly distributed numbers in [0, 1)
+export type Random = () => number;
+
+// Generate a fresh seed for requests that don't supply one
+export function generateSeed(): string {
+  return randomBytes(8).toString('hex');
+}
+
+// Normalize a client-supplied seed (string or integer) to its string form.
+// Returns null when the value can't be used as a seed.
+export function normalizeSeed(seed: unknown): string | null {
+  if (typeof seed === 'number' && Number.isSafeInteger(seed)) {
+    return String(seed);
+  }
+  if (typeof seed === 'string' && seed.length >= 1 && seed.length <= 64) {
+    return seed;
+  }
+  return null;
+}
+
+// Hash a string seed into a 32-bit integer (cyrb53, truncated)
+function hashSeed(seed: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < seed.length; i++) {
+    const ch = seed.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h1 ^ h2) >>> 0;
+}
+
+// Seeded PRNG (mulberry32): the same seed always yields the same sequence
+export function createRandom(seed: string): Random {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Unbiased Fisher–Yates shuffle. Returns a new array.
+export function shuffle<T>(items: T[], random: Random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
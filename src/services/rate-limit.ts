@@ -0,0 +1,76 @@
+// Fixed-window request counters kept in memory. Limits apply per
+// instance, so N instances allow up to N times the configured rate.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the window resets
+  resetSeconds: number;
+}
+
+export interface RateLimiter {
+  hit(key: string, limit: number): RateLimitResult;
+  // Whether another hit would be allowed, without counting one
+  peek(key: string, limit: number): RateLimitResult;
+  clear(): void;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Sweep expired windows once this many keys are tracked
+const SWEEP_THRESHOLD = 10_000;
+
+export function createRateLimiter(windowMs: number): RateLimiter {
+  const windows = new Map<string, Window>();
+
+  function sweep(now: number): void {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) {
+        windows.delete(key);
+      }
+    }
+  }
+
+  return {
+    hit(key, limit) {
+      const now = Date.now();
+      let window = windows.get(key);
+
+      if (!window || window.resetAt <= now) {
+        if (windows.size >= SWEEP_THRESHOLD) {
+          sweep(now);
+        }
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+
+      window.count++;
+      return {
+        allowed: window.count <= limit,
+        limit,
+        remaining: Math.max(0, limit - window.count),
+        resetSeconds: Math.ceil((window.resetAt - now) / 1000),
+      };
+    },
+
+    peek(key, limit) {
+      const now = Date.now();
+      const window = windows.get(key);
+      const count = window && window.resetAt > now ? window.count : 0;
+      return {
+        allowed: count < limit,
+        limit,
+        remaining: Math.max(0, limit - count),
+        resetSeconds: window && count > 0 ? Math.ceil((window.resetAt - now) / 1000) : 0,
+      };
+    },
+
+    clear() {
+      windows.clear();
+    },
+  };
+}
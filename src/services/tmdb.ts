@@ -0,0 +1,311 @@
+import { config } from '../config.js';
+import { tmdbRequestDuration, tmdbRequestsTotal } from './metrics.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TMDBMovie {
+  id: number;
+  title: string;
+  original_title: string;
+  release_date: string;
+  runtime?: number;
+  overview: string;
+  tagline?: string;
+  poster_path: string | null;
+  vote_average: number;
+  vote_count: number;
+  original_language: string;
+  adult: boolean;
+  genre_ids?: number[];
+  genres?: { id: number; name: string }[];
+  production_countries?: { iso_3166_1: string; name: string }[];
+  // Present when requested with append_to_response=translations
+  translations?: { translations: TMDBTranslation[] };
+}
+
+export interface TMDBTranslation {
+  iso_3166_1: string;
+  iso_639_1: string;
+  data: {
+    title: string;
+    overview: string;
+    tagline: string;
+  };
+}
+
+export interface TMDBChange {
+  id: number;
+  adult: boolean | null;
+}
+
+export interface TMDBGenre {
+  id: number;
+  name: string;
+}
+
+export interface TMDBPage<T> {
+  page: number;
+  total_pages: number;
+  total_results: number;
+  results: T[];
+}
+
+export interface TMDBVideo {
+  key: string;
+  site: string;
+  type: string;
+  official: boolean;
+  name: string;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Raised for any TMDB call that did not produce a usable response.
+// status is the HTTP status, or null for timeouts, network errors and an open circuit.
+export class TmdbError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null
+  ) {
+    super(message);
+    this.name = 'TmdbError';
+  }
+}
+
+// ============================================================================
+// Rate limiting (token bucket)
+// ============================================================================
+
+const bucket: { tokens: number; refilledAt: number } = {
+  tokens: config.tmdb.rateLimit.burst,
+  refilledAt: Date.now(),
+};
+
+function refillBucket(): void {
+  const now = Date.now();
+  const { burst, requestsPerSecond } = config.tmdb.rateLimit;
+  bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.refilledAt) / 1000) * requestsPerSecond);
+  bucket.refilledAt = now;
+}
+
+async function acquireToken(): Promise<void> {
+  refillBucket();
+  while (bucket.tokens < 1) {
+    const waitMs = ((1 - bucket.tokens) / config.tmdb.rateLimit.requestsPerSecond) * 1000;
+    await sleep(Math.ceil(waitMs));
+    refillBucket();
+  }
+  bucket.tokens -= 1;
+}
+
+// ============================================================================
+// Circuit breaker
+// ============================================================================
+
+const circuit: { state: CircuitState; consecutiveFailures: number; openedAt: number } = {
+  state: 'closed',
+  consecutiveFailures: 0,
+  openedAt: 0,
+};
+
+export function getTmdbCircuitState(): CircuitState {
+  if (circuit.state === 'open' && Date.now() - circuit.openedAt >= config.tmdb.circuitBreaker.cooldownMs) {
+    circuit.state = 'half-open';
+  }
+  return circuit.state;
+}
+
+function recordSuccess(): void {
+  circuit.state = 'closed';
+  circuit.consecutiveFailures = 0;
+}
+
+function recordFailure(): void {
+  circuit.consecutiveFailures++;
+  if (
+    circuit.state === 'half-open' ||
+    circuit.consecutiveFailures >= config.tmdb.circuitBreaker.failureThreshold
+  ) {
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+  }
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter
+function backoffDelay(attempt: number): number {
+  const { backoffBaseMs, backoffMaxMs } = config.tmdb;
+  return Math.random() * Math.min(backoffMaxMs, backoffBaseMs * 2 ** attempt);
+}
+
+function isRetryable(status: number | null): boolean {
+  return status === null || status === 429 || status >= 500;
+}
+
+export function isTmdbConfigured(): boolean {
+  const { accessToken, apiKey, baseUrl } = config.tmdb;
+  // A custom base URL (e.g. the fake TMDB server) doesn't need credentials
+  return Boolean(accessToken || apiKey || baseUrl !== config.tmdb.defaultBaseUrl);
+}
+
+function buildRequest(path: string, params: Record<string, string | number>): { url: string; headers: Record<string, string> } {
+  const url = new URL(`${config.tmdb.baseUrl}${path}`);
+  for (const [name, value] of Object.entries(params)) {
+    url.searchParams.set(name, String(value));
+  }
+
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (config.tmdb.accessToken) {
+    headers.Authorization = `Bearer ${config.tmdb.accessToken}`;
+  } else if (config.tmdb.apiKey) {
+    // v3 API keys can only be sent as a query parameter
+    url.searchParams.set('api_key', config.tmdb.apiKey);
+  }
+
+  return { url: url.toString(), headers };
+}
+
+// Metric label for a path, with IDs collapsed: /movie/550/videos -> /movie/:id/videos
+function endpointLabel(path: string): string {
+  return path.replace(/\/\d+/g, '/:id');
+}
+
+function recordAttempt(endpoint: string, outcome: string, startedAt: number): void {
+  tmdbRequestsTotal.inc({ endpoint, outcome });
+  tmdbRequestDuration.observe({ endpoint }, (performance.now() - startedAt) / 1000);
+}
+
+// GET a TMDB endpoint with timeout, rate limiting, retries and circuit breaking
+export async function tmdbGet<T>(path: string, params: Record<string, string | number> = {}): Promise<T> {
+  const { url, headers } = buildRequest(path, params);
+  const endpoint = endpointLabel(path);
+
+  for (let attempt = 0; ; attempt++) {
+    if (getTmdbCircuitState() === 'open') {
+      tmdbRequestsTotal.inc({ endpoint, outcome: 'circuit_open' });
+      throw new TmdbError('TMDB circuit breaker is open', null);
+    }
+
+    await acquireToken();
+
+    let status: number | null = null;
+    let retryAfterMs: number | null = null;
+    const startedAt = performance.now();
+    try {
+      const response = await fetch(url, {
+        headers,
+        signal: AbortSignal.timeout(config.tmdb.timeoutMs),
+      });
+
+      if (response.ok) {
+        const data = (await response.json()) as T;
+        recordSuccess();
+        recordAttempt(endpoint, String(response.status), startedAt);
+        return data;
+      }
+
+      status = response.status;
+      retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    } catch {
+      // Timeout or network error; status stays null
+    }
+    recordAttempt(endpoint, status === null ? 'error' : String(status), startedAt);
+
+    // 4xx other than 429 means the request itself is wrong; retrying won't help
+    if (!isRetryable(status)) {
+      throw new TmdbError(`TMDB API error: ${status} for ${path}`, status);
+    }
+
+    recordFailure();
+    if (attempt >= config.tmdb.maxRetries) {
+      throw new TmdbError(
+        status === null ? `TMDB request failed for ${path}` : `TMDB API error: ${status} for ${path}`,
+        status
+      );
+    }
+
+    await sleep(Math.min(retryAfterMs ?? backoffDelay(attempt), config.tmdb.backoffMaxMs));
+  }
+}
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+// append names extra sub-resources (e.g. "translations") to include in the same request
+export async function fetchMovieDetails(
+  tmdbId: number,
+  language?: string,
+  append: string[] = []
+): Promise<TMDBMovie> {
+  const params: Record<string, string> = {};
+  if (language) params.language = language;
+  if (append.length > 0) params.append_to_response = append.join(',');
+  return tmdbGet<TMDBMovie>(`/movie/${tmdbId}`, params);
+}
+
+export async function fetchMovieVideos(tmdbId: number, language = 'en-US'): Promise<TMDBVideo[]> {
+  const data = await tmdbGet<{ results: TMDBVideo[] }>(`/movie/${tmdbId}/videos`, { language });
+  return data.results;
+}
+
+export async function fetchPopularMovies(page: number): Promise<TMDBPage<TMDBMovie>> {
+  return tmdbGet<TMDBPage<TMDBMovie>>('/movie/popular', { page });
+}
+
+export async function fetchTopRatedMovies(page: number): Promise<TMDBPage<TMDBMovie>> {
+  return tmdbGet<TMDBPage<TMDBMovie>>('/movie/top_rated', { page });
+}
+
+export async function fetchGenreList(language: string): Promise<TMDBGenre[]> {
+  const data = await tmdbGet<{ genres: TMDBGenre[] }>('/genre/movie/list', { language });
+  return data.genres;
+}
+
+// IDs of movies changed between two dates (YYYY-MM-DD, at most 14 days apart)
+export async function fetchMovieChanges(
+  startDate: string,
+  endDate: string,
+  page: number
+): Promise<TMDBPage<TMDBChange>> {
+  return tmdbGet<TMDBPage<TMDBChange>>('/movie/changes', {
+    start_date: startDate,
+    end_date: endDate,
+    page,
+  });
+}
+
+// Movies first released between two dates (YYYY-MM-DD) with at least minVotes votes
+export async function fetchReleasedMovies(
+  fromDate: string,
+  toDate: string,
+  minVotes: number,
+  page: number
+): Promise<TMDBPage<TMDBMovie>> {
+  return tmdbGet<TMDBPage<TMDBMovie>>('/discover/movie', {
+    'primary_release_date.gte': fromDate,
+    'primary_release_date.lte': toDate,
+    'vote_count.gte': minVotes,
+    include_adult: 'false',
+    sort_by: 'primary_release_date.desc',
+    page,
+  });
+}
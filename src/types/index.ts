@@ -7,9 +7,11 @@ export interface Movie {
   year: number;
   runtime: number;
   synopsis: string;
+  tagline: string;
   posterUrl: string;
   voteAverage: number;
   genres: string[];
+  countries: string[];
 }
 
 export interface MovieRow {
@@ -20,6 +22,7 @@ export interface MovieRow {
   year: number;
   runtime: number | null;
   synopsis: string | null;
+  tagline: string | null;
   poster_path: string | null;
   vote_average: number;
   vote_count: number;
@@ -28,43 +31,357 @@ export interface MovieRow {
   created_at: Date;
 }
 
+export interface SimilarMovieRow extends MovieRow {
+  // 0-1 similarity to the reference movie
+  similarity: number;
+}
+
+export interface MovieSearchRow extends MovieRow {
+  score: number;
+  total_count: string;
+}
+
+export interface MovieSearchResult {
+  movie: Movie;
+  score: number;
+}
+
 export interface Genre {
   id: number;
   name: string;
 }
 
+export interface Country {
+  code: string;
+  name: string;
+  movieCount: number;
+}
+
 export type Era = '1980-1989' | '1990-1999' | '2000-2009' | '2010-2019' | '2020-now';
 
+// A release decade available in the catalog
+export interface EraOption {
+  decade: number;
+  label: string;
+  yearFrom: number;
+  yearTo: number;
+  movieCount: number;
+}
+
 export interface PickFilters {
   genreIds?: number[];
+  // 'any' (default): at least one of genreIds; 'all': every one of them
+  genreMatch?: 'any' | 'all';
+  excludeGenreIds?: number[];
+  // Legacy preset; combined with yearFrom/yearTo/releasedWithinYears when both are given
   era?: Era;
+  yearFrom?: number;
+  yearTo?: number;
+  // Released this year or in the previous N years
+  releasedWithinYears?: number;
   origin?: string[];
+  countries?: string[];
+  excludeCountries?: string[];
   minDuration?: number;
   maxDuration?: number;
+  // Pick only from the session's own watchlist
+  watchlistOnly?: boolean;
+  // Quality thresholds overriding config.selection defaults
+  minRating?: number;
+  minVotes?: number;
+  // Include movies shorter than the default minimum runtime
+  allowShorts?: boolean;
 }
 
+// Scoring strategy used to weight candidates
+export type ScoringMode = 'classic' | 'bayesian' | 'recent' | 'hidden_gems';
+
 export interface PickRequest {
   sessionId: string;
   filters: PickFilters;
+  // Defaults to config.selection.scoring.defaultMode
+  mode?: ScoringMode;
+  // Include a "why this pick" explanation in the response
+  explain?: boolean;
+  // Reproduces an earlier pick; a random seed is generated when omitted
+  seed?: string | number;
+  // Favour movies similar to this one ("more like this")
+  likeMovieId?: number;
+}
+
+// A taste signal from session feedback that affected a movie's weight
+export interface FeedbackSignal {
+  dimension: 'genre' | 'decade' | 'language';
+  value: string;
+  // Normalized to (-1, 1); positive signals boosted the movie
+  score: number;
+}
+
+// How a requested filter was satisfied by the picked movie
+export interface MatchedFilter {
+  filter: keyof PickFilters;
+  value: string;
+}
+
+// "Why this pick" details, returned when the request sets explain
+export interface PickExplanation {
+  matchedFilters: MatchedFilter[];
+  mode: ScoringMode;
+  // Candidates that passed the filters
+  poolSize: number;
+  weight: number;
+  // Share of the pool with a weight at or below this movie's (0-100)
+  percentile: number;
+  firstPickBias: boolean;
+  // Editorial weight multiplier; 1 unless the movie is pinned
+  boost: number;
+  // Similarity to likeMovieId (0-1); only set when one was given
+  similarity?: number;
+  feedbackSignals: FeedbackSignal[];
 }
 
 export interface PickResponse {
   movie: Movie | null;
+  seed: string;
+  explanation?: PickExplanation;
   message?: string;
 }
 
+export type FeedbackType = 'loved' | 'not_interested' | 'seen' | 'skip';
+
+export interface FeedbackRequest {
+  sessionId: string;
+  movieId: number;
+  feedback: FeedbackType;
+}
+
+export interface FeedbackResponse {
+  movieId: number;
+  feedback: FeedbackType;
+  updatedAt: string;
+}
+
+export type SessionListType = 'watchlist' | 'watched';
+
+export interface SessionListItem {
+  movie: Movie;
+  addedAt: string;
+}
+
+export interface SessionListResponse {
+  items: SessionListItem[];
+}
+
+export interface SessionPick {
+  id: number;
+  movie: Movie;
+  // Filters the pick was made with, as sent
+  filters: PickFilters | null;
+  pickedAt: string;
+}
+
+export interface SessionPicksResponse {
+  items: SessionPick[];
+  // Pass as `before` to fetch the next page; null on the last page
+  nextBefore: number | null;
+}
+
+export interface SessionMergeRequest {
+  // Anonymous (UUID) session to merge from; it is empty afterwards
+  fromSessionId: string;
+  // Firebase UID of the signed-in caller, which keeps the merged history
+  toSessionId: string;
+}
+
+// Rows moved per kind of session data
+export interface SessionMergeResponse {
+  moved: {
+    picks: number;
+    feedback: number;
+    lists: number;
+  };
+}
+
+// Rows erased per kind of session data
+export interface SessionDeletionResponse {
+  deleted: {
+    picks: number;
+    feedback: number;
+    lists: number;
+  };
+}
+
 export interface GenresResponse {
   genres: Genre[];
 }
 
+export interface ErasResponse {
+  eras: EraOption[];
+}
+
+export interface CountriesResponse {
+  countries: Country[];
+}
+
 export interface HealthResponse {
   status: 'ok' | 'error';
   timestamp: string;
 }
 
+export interface HealthCheck {
+  status: 'ok' | 'error';
+  // Why the check failed
+  message?: string;
+}
+
+export interface ReadinessResponse extends HealthResponse {
+  checks: {
+    database: HealthCheck;
+    migrations: HealthCheck;
+    catalog: HealthCheck;
+  };
+  // Only with ?detail=true
+  details?: {
+    migrations: { latest: string | null; pending: string[] };
+    catalog: { eligibleMovies: number | null; minEligibleMovies: number };
+    pool: { total: number; idle: number; waiting: number; max: number; saturation: number };
+    tmdb: { configured: boolean; circuit: 'closed' | 'open' | 'half-open' };
+  };
+}
+
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'INTERNAL_ERROR';
+
+// Uniform error envelope returned by every route
+export interface ErrorResponse {
+  error: {
+    code: ErrorCode;
+    message: string;
+    // Request field the error refers to, e.g. "filters.era"
+    field?: string;
+  };
+}
+
+export interface FeedbackRow {
+  movie_id: number;
+  feedback: FeedbackType;
+  year: number | null;
+  original_language: string | null;
+  updated_at: Date;
+}
+
+export interface MovieTranslationRow {
+  movie_id: number;
+  locale: string;
+  title: string | null;
+  synopsis: string | null;
+  tagline: string | null;
+}
+
+export type CurationAction = 'hide' | 'unhide' | 'pin' | 'unpin' | 'override';
+
+// Editorial values that replace TMDB's English ones when set
+export interface MovieOverrides {
+  title: string | null;
+  synopsis: string | null;
+  tagline: string | null;
+  posterPath: string | null;
+}
+
+// Fields set by one curation action
+export type CurationChanges = Partial<MovieOverrides & { hidden: boolean; boost: number }>;
+
+export interface MovieCurationRow {
+  movie_id: number;
+  hidden: boolean;
+  boost: number;
+  title_override: string | null;
+  synopsis_override: string | null;
+  tagline_override: string | null;
+  poster_path_override: string | null;
+  updated_at: Date;
+}
+
+export interface MovieCuration {
+  movieId: number;
+  hidden: boolean;
+  boost: number;
+  overrides: MovieOverrides;
+  updatedAt: string | null;
+}
+
+export interface CurationLogRow {
+  id: number;
+  movie_id: number;
+  action: CurationAction;
+  changes: CurationChanges;
+  reason: string | null;
+  created_at: Date;
+}
+
+export interface CurationLogEntry {
+  id: number;
+  movieId: number;
+  action: CurationAction;
+  changes: CurationChanges;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface CurationLogResponse {
+  entries: CurationLogEntry[];
+  // Pass as `before` to fetch the next page; null on the last page
+  nextBefore: number | null;
+}
+
+export interface ApiKeyRow {
+  id: number;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  rate_limit: number | null;
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+}
+
+// Client app identified by the request's API key
+export interface ApiClient {
+  id: number;
+  name: string;
+  // Requests per minute; null uses config.rateLimit.perKey.limit
+  rateLimit: number | null;
+}
+
+export interface TmdbCacheRow {
+  key: string;
+  movie_id: number;
+  value: unknown;
+  fetched_at: Date;
+  expires_at: Date;
+}
+
+export interface SessionListRow extends MovieRow {
+  added_at: Date;
+}
+
+export interface SessionPickRow extends MovieRow {
+  pick_id: number;
+  filters: PickFilters | null;
+  picked_at: Date;
+}
+
 // Candidate with weight for selection algorithm
 export interface WeightedCandidate {
   movie: MovieRow;
   weight: number;
   genres: string[];
+  // Similarity to the pick's likeMovieId, when one was given
+  similarity?: number;
 }
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { escapeFormula, toCsvLine } from '../src/services/csv.js';
+
+describe('escapeFormula', () => {
+  it.each(['=HYPERLINK("http://x")', '+1', '-1', '@SUM(A1)', '\tcmd', '\rcmd'])('prefixes %j', (text) => {
+    expect(escapeFormula(text)).toBe(`'${text}`);
+  });
+
+  it('leaves other text alone', () => {
+    expect(escapeFormula('Alien')).toBe('Alien');
+    expect(escapeFormula('')).toBe('');
+    expect(escapeFormula('Mission: Impossible - Fallout')).toBe('Mission: Impossible - Fallout');
+  });
+});
+
+describe('toCsvLine', () => {
+  it('joins plain values and leaves nulls empty', () => {
+    expect(toCsvLine(['Alien', 1979, true, null])).toBe('Alien,1979,true,');
+  });
+
+  it('quotes separators, quotes and line breaks', () => {
+    expect(toCsvLine(['a,b', 'say "hi"', 'one\ntwo'])).toBe('"a,b","say ""hi""","one\ntwo"');
+  });
+
+  it('keeps an escaped formula inside quotes', () => {
+    expect(toCsvLine([escapeFormula('=1,2')])).toBe(`"'=1,2"`);
+  });
+});
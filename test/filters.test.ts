@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { validateFilterRanges } from '../src/services/filters.js';
+import { config } from '../src/config.js';
+
+const { minRuntime } = config.selection;
+
+describe('validateFilterRanges', () => {
+  it('accepts consistent filters', () => {
+    expect(validateFilterRanges({})).toBeNull();
+    expect(validateFilterRanges({ minDuration: 90, maxDuration: 90, yearFrom: 1990, yearTo: 1990 })).toBeNull();
+  });
+
+  it('rejects minDuration above maxDuration', () => {
+    expect(validateFilterRanges({ minDuration: 120, maxDuration: 100 })?.error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      field: 'filters.minDuration',
+    });
+  });
+
+  it('rejects yearFrom after yearTo', () => {
+    expect(validateFilterRanges({ yearFrom: 2001, yearTo: 2000 })?.error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      field: 'filters.yearFrom',
+    });
+  });
+
+  describe('maxDuration below the runtime floor', () => {
+    const maxDuration = minRuntime - 1;
+
+    it('requires allowShorts', () => {
+      expect(validateFilterRanges({ maxDuration })?.error).toMatchObject({
+        code: 'VALIDATION_ERROR',
+        message: `maxDuration below ${minRuntime} requires allowShorts.`,
+        field: 'filters.maxDuration',
+      });
+    });
+
+    it('is allowed with allowShorts or watchlistOnly', () => {
+      expect(validateFilterRanges({ maxDuration, allowShorts: true })).toBeNull();
+      expect(validateFilterRanges({ maxDuration, watchlistOnly: true })).toBeNull();
+    });
+
+    it('is allowed at the floor itself', () => {
+      expect(validateFilterRanges({ maxDuration: minRuntime })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { generateKeyPairSync, sign, type KeyObject } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const PROJECT_ID = 'muse-test';
+const KID = 'test-key';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const { privateKey: otherPrivateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function createToken(
+  claims: Record<string, unknown> = {},
+  options: { kid?: string; alg?: string; key?: KeyObject } = {}
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = encode({ alg: options.alg ?? 'RS256', kid: options.kid ?? KID });
+  const payload = encode({
+    aud: PROJECT_ID,
+    iss: `https://securetoken.google.com/${PROJECT_ID}`,
+    sub: 'firebase-uid',
+    iat: now - 10,
+    exp: now + 3600,
+    ...claims,
+  });
+  const signature = sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), options.key ?? privateKey);
+  return `${header}.${payload}.${signature.toString('base64url')}`;
+}
+
+// Fresh modules per test, so cached signing keys and config changes don't leak
+async function loadVerifier(projectId = PROJECT_ID) {
+  const { config } = await import('../src/config.js');
+  Object.assign(config.firebase, { projectId });
+  const { verifyFirebaseIdToken } = await import('../src/services/firebase-auth.js');
+  return verifyFirebaseIdToken;
+}
+
+describe('verifyFirebaseIdToken', () => {
+  const fetchKeys = vi.fn();
+
+  beforeEach(() => {
+    vi.resetModules();
+    fetchKeys.mockReset();
+    fetchKeys.mockImplementation(
+      async () =>
+        new Response(JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KID }] }), {
+          headers: { 'Cache-Control': 'public, max-age=3600' },
+        })
+    );
+    vi.stubGlobal('fetch', fetchKeys);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the UID for a valid token', async () => {
+    const verify = await loadVerifier();
+    expect(await verify(createToken())).toBe('firebase-uid');
+  });
+
+  it('caches the signing keys for their max-age', async () => {
+    const verify = await loadVerifier();
+    await verify(createToken());
+    await verify(createToken());
+    expect(fetchKeys).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a token signed with another key', async () => {
+    const verify = await loadVerifier();
+    expect(await verify(createToken({}, { key: otherPrivateKey }))).toBeNull();
+  });
+
+  it('rejects a tampered payload', async () => {
+    const verify = await loadVerifier();
+    const [header, , signature] = createToken().split('.');
+    const payload = createToken({ sub: 'someone-else' }).split('.')[1];
+    expect(await verify(`${header}.${payload}.${signature}`)).toBeNull();
+  });
+
+  it('rejects unknown key IDs and algorithms other than RS256', async () => {
+    const verify = await loadVerifier();
+    expect(await verify(createToken({}, { kid: 'unknown' }))).toBeNull();
+    expect(await verify(createToken({}, { alg: 'none' }))).toBeNull();
+  });
+
+  it('rejects a token for another project', async () => {
+    const verify = await loadVerifier();
+    expect(await verify(createToken({ aud: 'other-project' }))).toBeNull();
+    expect(await verify(createToken({ iss: 'https://securetoken.google.com/other-project' }))).toBeNull();
+  });
+
+  it('rejects expired tokens, allowing for clock skew', async () => {
+    const verify = await loadVerifier();
+    const now = Math.floor(Date.now() / 1000);
+    expect(await verify(createToken({ exp: now - 30 }))).toBe('firebase-uid');
+    expect(await verify(createToken({ exp: now - 120 }))).toBeNull();
+    expect(await verify(createToken({ exp: undefined }))).toBeNull();
+  });
+
+  it('rejects tokens issued in the future', async () => {
+    const verify = await loadVerifier();
+    expect(await verify(createToken({ iat: Math.floor(Date.now() / 1000) + 3600 }))).toBeNull();
+  });
+
+  it('rejects a missing or empty subject', async () => {
+    const verify = await loadVerifier();
+    expect(await verify(createToken({ sub: '' }))).toBeNull();
+    expect(await verify(createToken({ sub: undefined }))).toBeNull();
+  });
+
+  it('rejects malformed tokens without fetching keys', async () => {
+    const verify = await loadVerifier();
+    expect(await verify('not-a-token')).toBeNull();
+    expect(await verify('a.b.c')).toBeNull();
+    expect(fetchKeys).not.toHaveBeenCalled();
+  });
+
+  it('rejects every token when FIREBASE_PROJECT_ID is unset', async () => {
+    const verify = await loadVerifier('');
+    expect(await verify(createToken())).toBeNull();
+  });
+
+  it('throws when the signing keys cannot be fetched', async () => {
+    fetchKeys.mockImplementation(async () => new Response('unavailable', { status: 503 }));
+    const verify = await loadVerifier();
+    await expect(verify(createToken())).rejects.toThrow('Fetching Firebase signing keys failed: 503');
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseAcceptLanguage } from '../src/services/i18n.js';
+
+describe('parseAcceptLanguage', () => {
+  it('maps a regional tag to its language', () => {
+    expect(parseAcceptLanguage('fr-CA')).toBe('fr');
+    expect(parseAcceptLanguage('DE-de')).toBe('de');
+  });
+
+  it('prefers the highest quality', () => {
+    expect(parseAcceptLanguage('en;q=0.5, es;q=0.9, fr;q=0.7')).toBe('es');
+  });
+
+  it('keeps header order between equal qualities', () => {
+    expect(parseAcceptLanguage('fr, de')).toBe('fr');
+    expect(parseAcceptLanguage('de;q=0.8, fr;q=0.8')).toBe('de');
+  });
+
+  it('skips unsupported languages', () => {
+    expect(parseAcceptLanguage('xx-YY, it;q=0.5')).toBe('it');
+  });
+
+  it('ignores wildcards and q=0', () => {
+    expect(parseAcceptLanguage('*, fr;q=0, es;q=0.1')).toBe('es');
+  });
+
+  it('returns null when nothing is supported', () => {
+    expect(parseAcceptLanguage('xx, *')).toBeNull();
+    expect(parseAcceptLanguage('')).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom, normalizeSeed, shuffle } from '../src/services/random.js';
+
+function take(random: () => number, count: number): number[] {
+  return Array.from({ length: count }, () => random());
+}
+
+describe('createRandom', () => {
+  it('yields the same sequence for the same seed', () => {
+    expect(take(createRandom('movie-night'), 20)).toEqual(take(createRandom('movie-night'), 20));
+  });
+
+  it('yields different sequences for different seeds', () => {
+    expect(take(createRandom('a'), 5)).not.toEqual(take(createRandom('b'), 5));
+  });
+
+  it('stays within [0, 1)', () => {
+    for (const value of take(createRandom('range'), 10_000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('spreads values evenly', () => {
+    const buckets = new Array(10).fill(0);
+    for (const value of take(createRandom('spread'), 10_000)) {
+      buckets[Math.floor(value * 10)]++;
+    }
+    for (const count of buckets) {
+      expect(count).toBeGreaterThan(850);
+      expect(count).toBeLessThan(1150);
+    }
+  });
+});
+
+describe('normalizeSeed', () => {
+  it('accepts strings and safe integers', () => {
+    expect(normalizeSeed('abc')).toBe('abc');
+    expect(normalizeSeed(42)).toBe('42');
+  });
+
+  it('rejects unusable values', () => {
+    expect(normalizeSeed('')).toBeNull();
+    expect(normalizeSeed('x'.repeat(65))).toBeNull();
+    expect(normalizeSeed(1.5)).toBeNull();
+    expect(normalizeSeed(Number.MAX_SAFE_INTEGER + 1)).toBeNull();
+    expect(normalizeSeed(null)).toBeNull();
+  });
+});
+
+describe('shuffle', () => {
+  const items = [1, 2, 3, 4, 5, 6, 7, 8];
+
+  it('is deterministic for a seed', () => {
+    expect(shuffle(items, createRandom('s'))).toEqual(shuffle(items, createRandom('s')));
+  });
+
+  it('returns a permutation without changing the input', () => {
+    const result = shuffle(items, createRandom('perm'));
+    expect([...result].sort((a, b) => a - b)).toEqual(items);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it('puts every item first about equally often', () => {
+    const firsts = new Map<number, number>();
+    const random = createRandom('fair');
+    for (let i = 0; i < 8000; i++) {
+      const first = shuffle(items, random)[0];
+      firsts.set(first, (firsts.get(first) ?? 0) + 1);
+    }
+    for (const item of items) {
+      expect(firsts.get(item)).toBeGreaterThan(850);
+      expect(firsts.get(item)).toBeLessThan(1150);
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter } from '../src/services/rate-limit.js';
+
+const WINDOW_MS = 60_000;
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows up to the limit in a window', () => {
+    const limiter = createRateLimiter(WINDOW_MS);
+
+    expect(limiter.hit('key', 2)).toEqual({ allowed: true, limit: 2, remaining: 1, resetSeconds: 60 });
+    expect(limiter.hit('key', 2)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(limiter.hit('key', 2)).toMatchObject({ allowed: false, remaining: 0 });
+  });
+
+  it('counts keys separately', () => {
+    const limiter = createRateLimiter(WINDOW_MS);
+
+    limiter.hit('a', 1);
+    expect(limiter.hit('a', 1).allowed).toBe(false);
+    expect(limiter.hit('b', 1).allowed).toBe(true);
+  });
+
+  it('starts a new window once the old one ends', () => {
+    const limiter = createRateLimiter(WINDOW_MS);
+
+    limiter.hit('key', 1);
+    vi.advanceTimersByTime(30_000);
+    expect(limiter.hit('key', 1)).toMatchObject({ allowed: false, resetSeconds: 30 });
+
+    vi.advanceTimersByTime(30_000);
+    expect(limiter.hit('key', 1)).toMatchObject({ allowed: true, resetSeconds: 60 });
+  });
+
+  it('peeks without counting a hit', () => {
+    const limiter = createRateLimiter(WINDOW_MS);
+
+    expect(limiter.peek('key', 1)).toEqual({ allowed: true, limit: 1, remaining: 1, resetSeconds: 0 });
+    expect(limiter.peek('key', 1).allowed).toBe(true);
+
+    limiter.hit('key', 1);
+    expect(limiter.peek('key', 1)).toEqual({ allowed: false, limit: 1, remaining: 0, resetSeconds: 60 });
+
+    vi.advanceTimersByTime(WINDOW_MS);
+    expect(limiter.peek('key', 1).allowed).toBe(true);
+  });
+
+  it('forgets every window on clear', () => {
+    const limiter = createRateLimiter(WINDOW_MS);
+
+    limiter.hit('key', 1);
+    limiter.clear();
+    expect(limiter.hit('key', 1).allowed).toBe(true);
+  });
+});